@@ -1,13 +1,15 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { useEditorStore, useOriginalImage, useProcessedImage, useAdjustments, useCrop, useHistory } from '@/lib/store';
+import { useEditorStore, useOriginalImage, usePreviewImage, useProcessedImage, useAdjustments, useCrop, useHistory } from '@/lib/store';
 import { CropTool } from './panels/CropTool';
+import { HealTool } from './panels/HealTool';
 import { EditorHeader } from './components/EditorHeader';
 import { CanvasViewport } from './components/CanvasViewport';
 import { ImageThumbnails } from './components/ImageThumbnails';
 import { EditorSidebar } from './components/EditorSidebar';
 import { LoadingState } from './components/LoadingState';
+import { ExportDialog } from './components/ExportDialog';
 import {
   Dialog,
   DialogContent,
@@ -22,13 +24,17 @@ import { useDragAndPan } from './hooks/useDragAndPan';
 import { useZoom } from './hooks/useZoom';
 import { useImageProcessing } from './hooks/useImageProcessing';
 import { processImage } from '@/lib/image-processing/canvas-utils';
+import {
+  ExportSettings,
+  EXPORT_FORMATS,
+  formatExportFilename,
+  getUniqueFilename,
+} from '@/lib/image-processing/export-utils';
+import { copyImageMetadata } from '@/lib/image-processing/exif-utils';
 import { dataUrlToBlob, downloadBlob } from '@/lib/download-utils';
 import JSZip from 'jszip';
 import { useTranslation } from '@/lib/i18n/useTranslation';
 
-const EXPORT_QUALITY = 0.97;
-
-
 export function ImageEditor() {
   const {
     images,
@@ -44,14 +50,17 @@ export function ImageEditor() {
   } = useEditorStore();
 
   const originalImage = useOriginalImage();
+  const previewImage = usePreviewImage();
   const processedImage = useProcessedImage();
   const adjustments = useAdjustments();
   const crop = useCrop();
   const { history, historyIndex } = useHistory();
 
   const [isCropping, setIsCropping] = useState(false);
+  const [isHealing, setIsHealing] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [isExporting, setIsExporting] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [showOriginal, setShowOriginal] = useState(false);
   const [panX, setPanX] = useState(0);
   const [panY, setPanY] = useState(0);
@@ -63,6 +72,7 @@ export function ImageEditor() {
     current: number;
     total: number;
     currentImageName: string;
+    imageProgress?: number; // 0-1 within the current image, for slow steps
   } | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -107,16 +117,17 @@ export function ImageEditor() {
     setPanY,
   });
 
-  const handleExport = async () => {
-    // Determine which images to export
-    const imagesToExport = selectedImageIds.size > 0
-      ? images.filter(img => selectedImageIds.has(img.id))
-      : currentImageId
-        ? images.filter(img => img.id === currentImageId)
-        : [];
+  // Images the export applies to: the selection, or the current image
+  const imagesToExport = selectedImageIds.size > 0
+    ? images.filter(img => selectedImageIds.has(img.id))
+    : currentImageId
+      ? images.filter(img => img.id === currentImageId)
+      : [];
 
+  const handleExport = async (settings: ExportSettings) => {
     if (imagesToExport.length === 0) return;
 
+    setShowExportDialog(false);
     setIsExporting(true);
     setExportProgress({
       isExporting: true,
@@ -125,6 +136,57 @@ export function ImageEditor() {
       currentImageName: '',
     });
 
+    const formatInfo = EXPORT_FORMATS.find(f => f.format === settings.format) ?? EXPORT_FORMATS[0];
+    const exportDate = new Date();
+
+    // Process the FULL resolution image with the chosen output settings
+    const exportImage = async (image: typeof imagesToExport[number]) => {
+      const result = await processImage(
+        image.originalImage,
+        image.adjustments,
+        image.crop,
+        {
+          format: settings.format,
+          quality: formatInfo.lossy ? settings.quality / 100 : undefined,
+          resize: { mode: settings.resizeMode, value: settings.resizeValue },
+          sharpening: settings.sharpening,
+          masks: image.masks,
+          spots: image.spots,
+          onProgress: (imageProgress) =>
+            setExportProgress(prev => prev && { ...prev, imageProgress }),
+        }
+      );
+      if (!result) return null;
+
+      const blob = await dataUrlToBlob(result);
+      if (!settings.keepMetadata) return blob;
+
+      // Canvas encoding drops EXIF; copy it over from the original file
+      try {
+        return await copyImageMetadata(image.originalImage, blob, {
+          stripGps: settings.stripGps,
+          resetOrientation: settings.resetOrientation,
+          software: settings.addSoftwareTag ? 'Luma Forge' : undefined,
+        });
+      } catch (error) {
+        console.error(`Failed to copy metadata for image ${image.id}`, error);
+        return blob;
+      }
+    };
+
+    const getFilename = (image: typeof imagesToExport[number], sequence: number) =>
+      formatExportFilename(
+        settings.filenameTemplate,
+        {
+          // Original file name without its extension
+          name: image.file?.name.replace(/\.[^.]+$/, ''),
+          sequence,
+          date: exportDate,
+          preset: settings.preset,
+        },
+        formatInfo.extension
+      );
+
     try {
       // For single image, download directly
       if (imagesToExport.length === 1) {
@@ -137,35 +199,23 @@ export function ImageEditor() {
           currentImageName: t('exportProcessingSingle'),
         });
 
-        // Process the FULL resolution image on export
-        // Use JPEG format with high quality for good quality but smaller file size
-        const fullResResult = await processImage(
-          image.originalImage,
-          image.adjustments,
-          image.crop,
-          {
-            format: 'image/jpeg',
-            quality: EXPORT_QUALITY
-          }
-        );
+        const blob = await exportImage(image);
 
-        if (!fullResResult) {
+        if (!blob) {
           throw new Error('Failed to process image');
         }
 
-        const blob = await dataUrlToBlob(fullResResult);
-        const filename = `luma-edit-${Date.now()}.jpg`;
-
         await downloadBlob(blob, {
-          filename,
-          description: 'JPEG Image',
-          accept: { 'image/jpeg': ['.jpg', '.jpeg'] },
+          filename: getFilename(image, 1),
+          description: `${formatInfo.label} Image`,
+          accept: { [settings.format]: [`.${formatInfo.extension}`] },
         });
         return;
       } else {
         // For multiple images, create a ZIP file
         const zip = new JSZip();
         const timestamp = Date.now();
+        const usedFilenames = new Set<string>();
 
         // Process all images and add to ZIP
         for (let i = 0; i < imagesToExport.length; i++) {
@@ -178,28 +228,15 @@ export function ImageEditor() {
             currentImageName: t('exportProcessingMultiple', { index: i + 1 }),
           });
 
-          // Process the FULL resolution image
-          const fullResResult = await processImage(
-            image.originalImage,
-            image.adjustments,
-            image.crop,
-            {
-              format: 'image/jpeg',
-              quality: EXPORT_QUALITY
-            }
-          );
-
-          if (!fullResResult) {
+          const blob = await exportImage(image);
+
+          if (!blob) {
             console.error(`Failed to process image ${image.id}`);
             continue;
           }
 
-          // Convert data URL to blob
-          const blob = await dataUrlToBlob(fullResResult);
-
-          // Add to ZIP with a clean filename
-          const filename = `luma-edit-${image.id}-${i + 1}.jpg`;
-          zip.file(filename, blob);
+          // Add to ZIP, keeping names unique when the template repeats
+          zip.file(getUniqueFilename(getFilename(image, i + 1), usedFilenames), blob);
         }
 
         setExportProgress({
@@ -248,7 +285,7 @@ export function ImageEditor() {
             setShowOriginal={setShowOriginal}
             isExporting={isExporting}
             processedImage={processedImage}
-            onExport={handleExport}
+            onExport={() => setShowExportDialog(true)}
             onClearAll={handleClearAll}
             adjustments={adjustments}
             crop={crop}
@@ -264,6 +301,13 @@ export function ImageEditor() {
               </div>
             )}
 
+            {/* Heal / Clone Overlay */}
+            {isHealing && (
+              <div className="absolute inset-0 z-40">
+                <HealTool onClose={() => setIsHealing(false)} />
+              </div>
+            )}
+
             {/* Main Canvas Area */}
             <div className="flex-1 bg-zinc-950 relative flex flex-col">
               <CanvasViewport
@@ -280,6 +324,7 @@ export function ImageEditor() {
                 setPanX={setPanX}
                 setPanY={setPanY}
                 onCropClick={() => setIsCropping(true)}
+                onHealClick={() => setIsHealing(true)}
               />
 
               <ImageThumbnails
@@ -327,6 +372,17 @@ export function ImageEditor() {
             </DialogContent>
           </Dialog>
 
+          {/* Export Settings Dialog */}
+          <ExportDialog
+            open={showExportDialog}
+            onOpenChange={setShowExportDialog}
+            onExport={handleExport}
+            imageCount={imagesToExport.length}
+            originalImage={originalImage}
+            previewImage={previewImage}
+            processedImage={processedImage}
+          />
+
           {/* Export Progress Dialog */}
           <Dialog open={!!exportProgress} onOpenChange={() => { }}>
             <DialogContent className="sm:max-w-md">
@@ -336,14 +392,19 @@ export function ImageEditor() {
                   {exportProgress && (
                     <div className="mt-4 space-y-2">
                       <div className="flex justify-between text-sm text-zinc-400">
-                        <span>{exportProgress.currentImageName}</span>
+                        <span>
+                          {exportProgress.currentImageName}
+                          {exportProgress.imageProgress !== undefined && exportProgress.imageProgress < 1 && (
+                            <> · {t('exportReducingNoise', { percent: Math.round(exportProgress.imageProgress * 100) })}</>
+                          )}
+                        </span>
                         <span>{exportProgress.current} / {exportProgress.total}</span>
                       </div>
                       <div className="w-full bg-zinc-800 rounded-full h-2 overflow-hidden">
                         <div
                           className="bg-primary h-full transition-all duration-300"
                           style={{
-                            width: `${(exportProgress.current / exportProgress.total) * 100}%`,
+                            width: `${((exportProgress.current - 1 + (exportProgress.imageProgress ?? 1)) / exportProgress.total) * 100}%`,
                           }}
                         />
                       </div>
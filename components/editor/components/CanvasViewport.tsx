@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useRef, startTransition } from 'react';
 import { Button } from '@/components/ui/button';
-import { Crop, Loader2, Maximize2, Minus, Plus } from 'lucide-react';
+import { Bandage, Crop, Loader2, Maximize2, Minus, Plus } from 'lucide-react';
 import { useTranslation } from '@/lib/i18n/useTranslation';
+import { MaskOverlay } from './MaskOverlay';
 
 interface CanvasViewportProps {
   canvasRef: React.RefObject<HTMLDivElement | null>;
@@ -19,6 +20,7 @@ interface CanvasViewportProps {
   setPanX: (x: number) => void;
   setPanY: (y: number) => void;
   onCropClick?: () => void;
+  onHealClick?: () => void;
 }
 
 export function CanvasViewport({
@@ -35,6 +37,7 @@ export function CanvasViewport({
   setPanX,
   setPanY,
   onCropClick,
+  onHealClick,
 }: CanvasViewportProps) {
   const [originalImageLoaded, setOriginalImageLoaded] = useState(false);
   const currentImageSrcRef = useRef<string | null>(null);
@@ -187,6 +190,18 @@ export function CanvasViewport({
         ) : (
           <Loader2 className="w-8 h-8 animate-spin text-zinc-600" />
         )}
+
+        {/* Local adjustment mask handles */}
+        {!showOriginal && processedImage && (
+          <MaskOverlay
+            canvasRef={canvasRef}
+            imageRef={imageRef}
+            processedImage={processedImage}
+            zoomLevel={zoomLevel}
+            panX={panX}
+            panY={panY}
+          />
+        )}
       </div>
 
       {/* Canvas Bottom Bar (Zoom etc) */}
@@ -227,17 +242,30 @@ export function CanvasViewport({
             <Maximize2 className="w-3 h-3" />
           </Button>
         </div>
-        {onCropClick && (
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-7 text-xs text-white"
-            onClick={onCropClick}
-          >
-            <Crop className="w-3.5 h-3.5 mr-1.5" />
-            {t('cropRotate')}
-          </Button>
-        )}
+        <div className="flex items-center gap-1">
+          {onHealClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-white"
+              onClick={onHealClick}
+            >
+              <Bandage className="w-3.5 h-3.5 mr-1.5" />
+              {t('healClone')}
+            </Button>
+          )}
+          {onCropClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-white"
+              onClick={onCropClick}
+            >
+              <Crop className="w-3.5 h-3.5 mr-1.5" />
+              {t('cropRotate')}
+            </Button>
+          )}
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,118 @@
+'use client';
+
+export type CropOverlayType = 'none' | 'thirds' | 'phi' | 'spiral' | 'diagonals' | 'center';
+
+export const CROP_OVERLAY_TYPES: CropOverlayType[] = ['none', 'thirds', 'phi', 'spiral', 'diagonals', 'center'];
+
+interface CropOverlayProps {
+  type: CropOverlayType;
+  spiralOrientation: number; // 0-3, which corner the spiral winds into
+  showFineGrid: boolean;
+}
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Golden spiral as quarter-ellipse arcs through successive golden-rectangle
+// squares, stretched to a 100x100 box like the rest of the overlay
+const GOLDEN_SPIRAL_PATH = (() => {
+  const sx = 100 / PHI;
+  const sy = 100;
+  let x = 0;
+  let y = 0;
+  let w = PHI;
+  let h = 1;
+  let path = `M 0 ${sy}`;
+
+  for (let i = 0; i < 10; i++) {
+    const side = Math.min(w, h);
+    let endX: number;
+    let endY: number;
+    switch (i % 4) {
+      case 0: // Square on the left
+        endX = x + side;
+        endY = y;
+        x += side;
+        w -= side;
+        break;
+      case 1: // Square on top
+        endX = x + side;
+        endY = y + side;
+        y += side;
+        h -= side;
+        break;
+      case 2: // Square on the right
+        endX = x + w - side;
+        endY = y + side;
+        w -= side;
+        break;
+      default: // Square at the bottom
+        endX = x;
+        endY = y + h - side;
+        h -= side;
+        break;
+    }
+    path += ` A ${side * sx} ${side * sy} 0 0 1 ${endX * sx} ${endY * sy}`;
+  }
+  return path;
+})();
+
+// Mirror transforms for the four spiral orientations
+const SPIRAL_TRANSFORMS = [
+  undefined,
+  'translate(100 0) scale(-1 1)',
+  'translate(100 100) scale(-1 -1)',
+  'translate(0 100) scale(1 -1)',
+];
+
+const gridLines = (positions: number[]) =>
+  positions.flatMap((p) => [
+    <line key={`v${p}`} x1={p} y1={0} x2={p} y2={100} vectorEffect="non-scaling-stroke" />,
+    <line key={`h${p}`} x1={0} y1={p} x2={100} y2={p} vectorEffect="non-scaling-stroke" />,
+  ]);
+
+const FINE_GRID_POSITIONS = Array.from({ length: 9 }, (_, i) => (i + 1) * 10);
+
+/**
+ * Composition guides drawn inside the crop selection.
+ */
+export function CropOverlay({ type, spiralOrientation, showFineGrid }: CropOverlayProps) {
+  if (type === 'none' && !showFineGrid) return null;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+    >
+      {/* Fine grid while rotating, to line up verticals and horizons */}
+      {showFineGrid && (
+        <g stroke="rgba(255,255,255,0.35)" strokeWidth={1}>
+          {gridLines(FINE_GRID_POSITIONS)}
+        </g>
+      )}
+      <g
+        stroke="rgba(255,255,255,0.7)"
+        strokeWidth={1}
+        fill="none"
+        style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.8))' }}
+      >
+        {type === 'thirds' && gridLines([100 / 3, 200 / 3])}
+        {type === 'phi' && gridLines([100 - 100 / PHI, 100 / PHI])}
+        {type === 'spiral' && (
+          <path
+            d={GOLDEN_SPIRAL_PATH}
+            transform={SPIRAL_TRANSFORMS[spiralOrientation % 4]}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {type === 'diagonals' && (
+          <>
+            <line x1={0} y1={0} x2={100} y2={100} vectorEffect="non-scaling-stroke" />
+            <line x1={100} y1={0} x2={0} y2={100} vectorEffect="non-scaling-stroke" />
+          </>
+        )}
+        {type === 'center' && gridLines([50])}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ExportSettings,
+  ExportPresetId,
+  ResizeMode,
+  OutputSharpening,
+  EXPORT_FORMATS,
+  EXPORT_PRESETS,
+  RESIZE_DEFAULTS,
+  FILENAME_TOKENS,
+  getExportDimensions,
+  getFormatExtension,
+  isFormatSupported,
+  formatExportFilename,
+  loadExportSettings,
+  saveExportSettings,
+} from '@/lib/image-processing/export-utils';
+import { cn, formatFileSize } from '@/lib/utils';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import type { TranslationKey } from '@/lib/i18n/translations';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (settings: ExportSettings) => void;
+  imageCount: number;
+  originalImage: string | null;
+  previewImage: string | null;
+  processedImage: string | null;
+}
+
+type Dimensions = {
+  width: number;
+  height: number;
+};
+
+const PRESET_LABEL_KEYS: Record<ExportPresetId, TranslationKey> = {
+  original: 'exportPresetOriginal',
+  web: 'exportPresetWeb',
+  social: 'exportPresetSocial',
+  archive: 'exportPresetArchive',
+};
+
+const RESIZE_LABEL_KEYS: Record<ResizeMode, TranslationKey> = {
+  none: 'exportResizeNone',
+  longEdge: 'exportResizeLongEdge',
+  shortEdge: 'exportResizeShortEdge',
+  megapixels: 'exportResizeMegapixels',
+  percentage: 'exportResizePercentage',
+};
+
+const RESIZE_UNITS: Record<ResizeMode, string> = {
+  none: '',
+  longEdge: 'px',
+  shortEdge: 'px',
+  megapixels: 'MP',
+  percentage: '%',
+};
+
+const SHARPENING_LABEL_KEYS: Record<OutputSharpening, TranslationKey> = {
+  none: 'exportSharpenNone',
+  low: 'exportSharpenLow',
+  standard: 'exportSharpenStandard',
+  high: 'exportSharpenHigh',
+};
+
+const METADATA_OPTIONS: Array<{
+  key: 'keepMetadata' | 'stripGps' | 'resetOrientation' | 'addSoftwareTag';
+  label: TranslationKey;
+}> = [
+  { key: 'keepMetadata', label: 'exportKeepMetadata' },
+  { key: 'stripGps', label: 'exportStripGps' },
+  { key: 'resetOrientation', label: 'exportResetOrientation' },
+  { key: 'addSoftwareTag', label: 'exportSoftwareTag' },
+];
+
+const loadImageSize = (src: string) =>
+  new Promise<Dimensions>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  onExport,
+  imageCount,
+  originalImage,
+  previewImage,
+  processedImage,
+}: ExportDialogProps) {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  // Full-resolution output size of the current image, before resizing
+  const [fullSize, setFullSize] = useState<Dimensions | null>(null);
+  const [estimatedBytes, setEstimatedBytes] = useState<number | null>(null);
+
+  const formatInfo = EXPORT_FORMATS.find(f => f.format === settings.format) ?? EXPORT_FORMATS[0];
+  const outputSize = fullSize
+    ? getExportDimensions(fullSize.width, fullSize.height, {
+      mode: settings.resizeMode,
+      value: settings.resizeValue,
+    })
+    : null;
+  const outputWidth = outputSize?.width ?? 0;
+  const outputHeight = outputSize?.height ?? 0;
+
+  // The processed preview is cropped but downscaled; scale it back up by the
+  // preview-to-original ratio to get the full-resolution output size
+  useEffect(() => {
+    if (!open || !originalImage || !previewImage || !processedImage) return;
+
+    let active = true;
+    Promise.all([
+      loadImageSize(originalImage),
+      loadImageSize(previewImage),
+      loadImageSize(processedImage),
+    ])
+      .then(([original, preview, processed]) => {
+        if (!active) return;
+        const ratio = original.width / preview.width;
+        setFullSize({
+          width: Math.round(processed.width * ratio),
+          height: Math.round(processed.height * ratio),
+        });
+      })
+      .catch(() => {
+        if (active) setFullSize(null);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [open, originalImage, previewImage, processedImage]);
+
+  // Estimate the file size by encoding the preview and scaling bytes per pixel
+  useEffect(() => {
+    if (!open || !processedImage || outputWidth === 0) return;
+
+    let active = true;
+    const timer = setTimeout(() => {
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min(1, outputWidth / img.naturalWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(
+          (blob) => {
+            if (!active || !blob) return;
+            const bytesPerPixel = blob.size / (canvas.width * canvas.height);
+            setEstimatedBytes(bytesPerPixel * outputWidth * outputHeight);
+          },
+          settings.format,
+          settings.quality / 100
+        );
+      };
+      img.src = processedImage;
+    }, 300);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [open, processedImage, outputWidth, outputHeight, settings.format, settings.quality]);
+
+  // Any manual change turns the settings into a custom preset
+  const updateSettings = (updates: Partial<ExportSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates, preset: 'custom' }));
+  };
+
+  const applyPreset = (preset: ExportPresetId) => {
+    setSettings(prev => ({ ...prev, ...EXPORT_PRESETS[preset], preset }));
+  };
+
+  const handleExport = () => {
+    saveExportSettings(settings);
+    onExport(settings);
+  };
+
+  const exampleFilename = formatExportFilename(
+    settings.filenameTemplate,
+    { name: 'IMG_1234', sequence: 1, date: new Date(), preset: settings.preset },
+    getFormatExtension(settings.format)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('exportDialogTitle')}</DialogTitle>
+          <DialogDescription>
+            {imageCount > 1
+              ? t('exportDialogDescriptionMultiple', { count: imageCount })
+              : t('exportDialogDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Presets */}
+          <div className="space-y-2">
+            <Label className="text-xs">{t('exportPreset')}</Label>
+            <div className="grid grid-cols-4 gap-1.5">
+              {(Object.keys(EXPORT_PRESETS) as ExportPresetId[]).map((preset) => (
+                <Button
+                  key={preset}
+                  variant={settings.preset === preset ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => applyPreset(preset)}
+                >
+                  {t(PRESET_LABEL_KEYS[preset])}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Format */}
+          <div className="space-y-2">
+            <Label className="text-xs">{t('exportFormat')}</Label>
+            <div className="grid grid-cols-4 gap-1.5">
+              {EXPORT_FORMATS.map(({ format, label }) => {
+                const supported = isFormatSupported(format);
+                return (
+                  <Button
+                    key={format}
+                    variant={settings.format === format ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={!supported}
+                    title={supported ? undefined : t('exportFormatUnsupported')}
+                    onClick={() => updateSettings({ format })}
+                  >
+                    {label}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Quality */}
+          <div className={cn("space-y-2", !formatInfo.lossy && "opacity-50")}>
+            <div className="flex justify-between text-xs">
+              <Label className="text-xs">{t('exportQuality')}</Label>
+              <span className="text-muted-foreground">
+                {formatInfo.lossy ? settings.quality : '—'}
+                {estimatedBytes !== null && ` · ${t('exportEstimatedSize', { size: formatFileSize(estimatedBytes) })}`}
+              </span>
+            </div>
+            <Slider
+              value={[settings.quality]}
+              min={1}
+              max={100}
+              step={1}
+              disabled={!formatInfo.lossy}
+              onValueChange={(v) => updateSettings({ quality: v[0] })}
+            />
+          </div>
+
+          {/* Resize */}
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <Label className="text-xs">{t('exportResize')}</Label>
+              {outputSize && (
+                <span className="text-muted-foreground">
+                  {outputSize.width} × {outputSize.height}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={settings.resizeMode}
+                onValueChange={(mode: ResizeMode) =>
+                  updateSettings({ resizeMode: mode, resizeValue: RESIZE_DEFAULTS[mode] })
+                }
+              >
+                <SelectTrigger size="sm" className="flex-1 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RESIZE_LABEL_KEYS) as ResizeMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode} className="text-xs">
+                      {t(RESIZE_LABEL_KEYS[mode])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {settings.resizeMode !== 'none' && (
+                <div className="flex items-center gap-1.5">
+                  <Input
+                    type="number"
+                    min={settings.resizeMode === 'megapixels' ? 0.1 : 1}
+                    max={settings.resizeMode === 'percentage' ? 100 : undefined}
+                    step={settings.resizeMode === 'megapixels' ? 0.1 : 1}
+                    value={settings.resizeValue}
+                    onChange={(e) => updateSettings({ resizeValue: Number(e.target.value) || 0 })}
+                    className="h-8 w-24 text-xs"
+                  />
+                  <span className="text-xs text-muted-foreground w-5">
+                    {RESIZE_UNITS[settings.resizeMode]}
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Output Sharpening */}
+          <div className="space-y-2">
+            <Label className="text-xs">{t('exportSharpening')}</Label>
+            <div className="grid grid-cols-4 gap-1.5">
+              {(Object.keys(SHARPENING_LABEL_KEYS) as OutputSharpening[]).map((sharpening) => (
+                <Button
+                  key={sharpening}
+                  variant={settings.sharpening === sharpening ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => updateSettings({ sharpening })}
+                >
+                  {t(SHARPENING_LABEL_KEYS[sharpening])}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Metadata */}
+          <div className="space-y-2">
+            <Label className="text-xs">{t('exportMetadata')}</Label>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+              {METADATA_OPTIONS.map(({ key, label }) => (
+                <label
+                  key={key}
+                  className={cn(
+                    "flex items-center gap-2 text-xs",
+                    key !== 'keepMetadata' && !settings.keepMetadata && "opacity-50"
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    disabled={key !== 'keepMetadata' && !settings.keepMetadata}
+                    onChange={(e) => setSettings(prev => ({ ...prev, [key]: e.target.checked }))}
+                    className="accent-primary"
+                  />
+                  {t(label)}
+                </label>
+              ))}
+            </div>
+            {settings.keepMetadata && settings.format !== 'image/jpeg' && (
+              <p className="text-[11px] text-muted-foreground">{t('exportMetadataJpegOnly')}</p>
+            )}
+          </div>
+
+          {/* Filename Template */}
+          <div className="space-y-2">
+            <Label className="text-xs">{t('exportFilename')}</Label>
+            <Input
+              value={settings.filenameTemplate}
+              onChange={(e) => setSettings(prev => ({ ...prev, filenameTemplate: e.target.value }))}
+              className="h-8 text-xs font-mono"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              {t('exportFilenameTokens', { tokens: FILENAME_TOKENS.join(' ') })}
+            </p>
+            <p className="text-[11px] text-muted-foreground truncate">
+              {t('exportFilenameExample', { filename: exampleFilename })}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('dialogCancel')}
+          </Button>
+          <Button onClick={handleExport} disabled={!isFormatSupported(settings.format)}>
+            {t('exportButton')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
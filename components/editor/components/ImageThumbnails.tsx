@@ -2,7 +2,9 @@
 
 import { useRef, useState, useEffect, useMemo } from 'react';
 import { Plus } from 'lucide-react';
-import { ImageData } from '@/lib/store';
+import { ImageData, ImageFileInfo, getImageFileInfo } from '@/lib/store';
+import { formatFileSize } from '@/lib/utils';
+import { readImageFiles } from '@/lib/image-processing/image-import';
 import { useTranslation } from '@/lib/i18n/useTranslation';
 
 interface ImageThumbnailsProps {
@@ -10,7 +12,7 @@ interface ImageThumbnailsProps {
   currentImageId: string | null;
   setCurrentImage: (id: string) => void;
   removeImage: (id: string) => void;
-  addImage: (imageData: string) => void;
+  addImage: (imageData: string, file?: ImageFileInfo) => void;
   onSelectionChange?: (selectedIds: Set<string>) => void;
 }
 
@@ -54,6 +56,16 @@ export function ImageThumbnails({
     }
   }, [currentImageId, images]);
 
+  // Tooltip with the details of the imported file
+  const getFileTooltip = (file: ImageFileInfo | null) => {
+    if (!file) return undefined;
+    return [
+      file.name,
+      `${formatFileSize(file.size)} · ${file.type || t('thumbnailsUnknownType')}`,
+      t('thumbnailsModified', { date: new Date(file.lastModified).toLocaleString() }),
+    ].join('\n');
+  };
+
   const handleImageClick = (
     imageId: string,
     imageIndex: number,
@@ -109,6 +121,7 @@ export function ImageThumbnails({
             >
               <button
                 onClick={(e) => handleImageClick(image.id, index, e)}
+                title={getFileTooltip(image.file)}
                 className={`
                   relative w-full h-full rounded-lg overflow-hidden border-2
                   ${isCurrent
@@ -121,7 +134,7 @@ export function ImageThumbnails({
               >
                 <img
                   src={image.processedImage || image.originalImage}
-                  alt={`Image ${image.id}`}
+                  alt={image.file?.name || `Image ${image.id}`}
                   className="w-full h-full object-cover"
                 />
                 {isSelected && (
@@ -156,27 +169,24 @@ export function ImageThumbnails({
         <input
           type="file"
           ref={addImageInputRef}
-          onChange={(e) => {
+          onChange={async (e) => {
             const files = e.target.files;
             if (!files || files.length === 0) return;
 
             const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
             if (imageFiles.length === 0) return;
 
-            imageFiles.forEach((file) => {
-              const reader = new FileReader();
-              reader.onload = (e) => {
-                if (e.target?.result) {
-                  addImage(e.target.result as string);
-                }
-              };
-              reader.readAsDataURL(file);
-            });
-
             // Reset input to allow selecting the same file again
             if (addImageInputRef.current) {
               addImageInputRef.current.value = '';
             }
+
+            // Add in the order selected, not the order the reads finish
+            const { images: loaded, failed } = await readImageFiles(imageFiles);
+            loaded.forEach(({ file, src }) => addImage(src, getImageFileInfo(file)));
+            if (failed.length > 0) {
+              alert(t('importError', { names: failed.map((file) => file.name).join(', ') }));
+            }
           }}
           accept="image/*"
           multiple
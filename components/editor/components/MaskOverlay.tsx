@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useEditorStore, useMasks, LocalMask, Point } from '@/lib/store';
+
+interface MaskOverlayProps {
+  canvasRef: React.RefObject<HTMLDivElement | null>;
+  imageRef: React.RefObject<HTMLImageElement | null>;
+  processedImage: string | null;
+  zoomLevel: number;
+  panX: number;
+  panY: number;
+}
+
+type Frame = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+type DragHandle = 'start' | 'end' | 'move' | 'center' | 'radiusX' | 'radiusY';
+
+const HANDLE_RADIUS = 6;
+
+export function MaskOverlay({
+  canvasRef,
+  imageRef,
+  processedImage,
+  zoomLevel,
+  panX,
+  panY,
+}: MaskOverlayProps) {
+  const masks = useMasks();
+  const activeMaskId = useEditorStore((state) => state.activeMaskId);
+  const brushSettings = useEditorStore((state) => state.brushSettings);
+  const updateMask = useEditorStore((state) => state.updateMask);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [frame, setFrame] = useState<Frame | null>(null);
+  // Local copy of the mask while dragging; committed to the store on release
+  const [draft, setDraft] = useState<LocalMask | null>(null);
+  const [liveStroke, setLiveStroke] = useState<Point[] | null>(null);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const dragRef = useRef<{ handle: DragHandle; origin: Point; mask: LocalMask } | null>(null);
+
+  const storedMask = masks.find(mask => mask.id === activeMaskId) || null;
+  const mask = draft && storedMask && draft.id === storedMask.id ? draft : storedMask;
+
+  // Track the on-screen box of the preview image (it moves with zoom/pan)
+  useEffect(() => {
+    const measure = () => {
+      const img = imageRef.current;
+      const container = canvasRef.current;
+      if (!img || !container) {
+        setFrame(null);
+        return;
+      }
+      const imgRect = img.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      setFrame({
+        left: imgRect.left - containerRect.left,
+        top: imgRect.top - containerRect.top,
+        width: imgRect.width,
+        height: imgRect.height,
+      });
+    };
+
+    const rafId = requestAnimationFrame(measure);
+    const img = imageRef.current;
+    window.addEventListener('resize', measure);
+    img?.addEventListener('load', measure);
+    img?.addEventListener('transitionend', measure);
+
+    return () => {
+      cancelAnimationFrame(rafId);
+      window.removeEventListener('resize', measure);
+      img?.removeEventListener('load', measure);
+      img?.removeEventListener('transitionend', measure);
+    };
+  }, [imageRef, canvasRef, processedImage, zoomLevel, panX, panY]);
+
+  if (!mask || !frame || frame.width === 0 || frame.height === 0) return null;
+
+  const { width, height } = frame;
+  const longEdge = Math.max(width, height);
+
+  const getNormalizedPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const startDrag = (handle: DragHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    // Capture on the handle so moves keep bubbling to the svg while dragging
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, origin: getNormalizedPoint(e), mask };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mask.type !== 'brush') return;
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setLiveStroke([getNormalizedPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const p = getNormalizedPoint(e);
+
+    if (mask.type === 'brush') {
+      setCursor(p);
+      if (liveStroke) {
+        const last = liveStroke[liveStroke.length - 1];
+        // Skip points closer than ~2 screen pixels
+        if (Math.hypot((p.x - last.x) * width, (p.y - last.y) * height) >= 2) {
+          setLiveStroke([...liveStroke, p]);
+        }
+      }
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = p.x - drag.origin.x;
+    const dy = p.y - drag.origin.y;
+    const base = drag.mask;
+
+    if (base.type === 'linear') {
+      if (drag.handle === 'start') setDraft({ ...base, start: p });
+      else if (drag.handle === 'end') setDraft({ ...base, end: p });
+      else if (drag.handle === 'move') {
+        setDraft({
+          ...base,
+          start: { x: base.start.x + dx, y: base.start.y + dy },
+          end: { x: base.end.x + dx, y: base.end.y + dy },
+        });
+      }
+    } else if (base.type === 'radial') {
+      if (drag.handle === 'center') {
+        setDraft({ ...base, center: { x: base.center.x + dx, y: base.center.y + dy } });
+      } else {
+        // Project the pointer onto the ellipse's rotated axes (in screen pixels)
+        const rad = (base.rotation * Math.PI) / 180;
+        const px = (p.x - base.center.x) * width;
+        const py = (p.y - base.center.y) * height;
+        if (drag.handle === 'radiusX') {
+          const along = Math.abs(px * Math.cos(rad) + py * Math.sin(rad));
+          setDraft({ ...base, radiusX: Math.max(0.01, along / width) });
+        } else if (drag.handle === 'radiusY') {
+          const along = Math.abs(-px * Math.sin(rad) + py * Math.cos(rad));
+          setDraft({ ...base, radiusY: Math.max(0.01, along / height) });
+        }
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (mask.type === 'brush' && liveStroke) {
+      updateMask(mask.id, {
+        strokes: [
+          ...mask.strokes,
+          {
+            points: liveStroke,
+            size: brushSettings.size,
+            feather: brushSettings.feather,
+            flow: brushSettings.flow,
+            erase: brushSettings.erase,
+          },
+        ],
+      });
+      setLiveStroke(null);
+      return;
+    }
+
+    if (dragRef.current && draft) {
+      updateMask(draft.id, draft);
+    }
+    dragRef.current = null;
+    setDraft(null);
+  };
+
+  const toPx = (p: Point) => ({ x: p.x * width, y: p.y * height });
+
+  const renderHandle = (p: Point, handle: DragHandle, filled = false) => {
+    const { x, y } = toPx(p);
+    return (
+      <circle
+        cx={x}
+        cy={y}
+        r={HANDLE_RADIUS}
+        fill={filled ? 'white' : 'rgba(0,0,0,0.4)'}
+        stroke="white"
+        strokeWidth={1.5}
+        className="cursor-move"
+        style={{ pointerEvents: 'all' }}
+        onPointerDown={startDrag(handle)}
+      />
+    );
+  };
+
+  const renderLinear = () => {
+    if (mask.type !== 'linear') return null;
+    const s = toPx(mask.start);
+    const en = toPx(mask.end);
+    const dx = en.x - s.x;
+    const dy = en.y - s.y;
+    const len = Math.hypot(dx, dy) || 1;
+    // Perpendicular guide lines long enough to cross the whole frame
+    const reach = Math.hypot(width, height);
+    const nx = (-dy / len) * reach;
+    const ny = (dx / len) * reach;
+    const mid = { x: (mask.start.x + mask.end.x) / 2, y: (mask.start.y + mask.end.y) / 2 };
+
+    return (
+      <g>
+        <line x1={s.x - nx} y1={s.y - ny} x2={s.x + nx} y2={s.y + ny} stroke="white" strokeWidth={1.5} />
+        <line x1={en.x - nx} y1={en.y - ny} x2={en.x + nx} y2={en.y + ny} stroke="white" strokeWidth={1} strokeDasharray="6 4" />
+        <line x1={s.x} y1={s.y} x2={en.x} y2={en.y} stroke="white" strokeWidth={1} opacity={0.6} />
+        {renderHandle(mask.start, 'start', true)}
+        {renderHandle(mask.end, 'end')}
+        {renderHandle(mid, 'move')}
+      </g>
+    );
+  };
+
+  const renderRadial = () => {
+    if (mask.type !== 'radial') return null;
+    const c = toPx(mask.center);
+    const rx = mask.radiusX * width;
+    const ry = mask.radiusY * height;
+    const inner = 1 - mask.feather / 100;
+    const rad = (mask.rotation * Math.PI) / 180;
+    const xHandle = {
+      x: mask.center.x + (Math.cos(rad) * rx) / width,
+      y: mask.center.y + (Math.sin(rad) * rx) / height,
+    };
+    const yHandle = {
+      x: mask.center.x + (-Math.sin(rad) * ry) / width,
+      y: mask.center.y + (Math.cos(rad) * ry) / height,
+    };
+
+    return (
+      <g>
+        <g transform={`rotate(${mask.rotation} ${c.x} ${c.y})`}>
+          <ellipse cx={c.x} cy={c.y} rx={rx} ry={ry} fill="none" stroke="white" strokeWidth={1.5} />
+          {inner > 0 && (
+            <ellipse
+              cx={c.x}
+              cy={c.y}
+              rx={rx * inner}
+              ry={ry * inner}
+              fill="none"
+              stroke="white"
+              strokeWidth={1}
+              strokeDasharray="6 4"
+              opacity={0.7}
+            />
+          )}
+        </g>
+        {renderHandle(mask.center, 'center', true)}
+        {renderHandle(xHandle, 'radiusX')}
+        {renderHandle(yHandle, 'radiusY')}
+      </g>
+    );
+  };
+
+  const strokeToPath = (points: Point[]) =>
+    points
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x * width} ${p.y * height}`)
+      .join(' ') + (points.length === 1 ? ` L ${points[0].x * width + 0.1} ${points[0].y * height}` : '');
+
+  const renderBrush = () => {
+    if (mask.type !== 'brush') return null;
+    return (
+      <g>
+        {mask.strokes.map((stroke, i) => (
+          <path
+            key={i}
+            d={strokeToPath(stroke.points)}
+            fill="none"
+            stroke={stroke.erase ? 'rgba(0,0,0,0.35)' : 'rgba(239,68,68,0.35)'}
+            strokeWidth={stroke.size * longEdge * 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+        {liveStroke && (
+          <path
+            d={strokeToPath(liveStroke)}
+            fill="none"
+            stroke={brushSettings.erase ? 'rgba(0,0,0,0.35)' : 'rgba(239,68,68,0.35)'}
+            strokeWidth={brushSettings.size * longEdge * 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+        {cursor && (
+          <>
+            <circle
+              cx={cursor.x * width}
+              cy={cursor.y * height}
+              r={brushSettings.size * longEdge}
+              fill="none"
+              stroke="white"
+              strokeWidth={1}
+            />
+            <circle
+              cx={cursor.x * width}
+              cy={cursor.y * height}
+              r={brushSettings.size * longEdge * (1 - brushSettings.feather / 100)}
+              fill="none"
+              stroke="white"
+              strokeWidth={1}
+              strokeDasharray="3 3"
+              opacity={0.7}
+            />
+          </>
+        )}
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute overflow-visible z-10"
+      style={{
+        left: frame.left,
+        top: frame.top,
+        width,
+        height,
+        pointerEvents: mask.type === 'brush' ? 'all' : 'none',
+        cursor: mask.type === 'brush' ? 'none' : undefined,
+        touchAction: 'none',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    >
+      {renderLinear()}
+      {renderRadial()}
+      {renderBrush()}
+    </svg>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { CurveChannel } from '@/lib/store';
+
+/**
+ * Histogram of one channel of an image (luminance for master), normalized
+ * to 0-1. Empty while there is no image or it is still loading.
+ */
+export function useChannelHistogram(imageSrc: string | null, channel: CurveChannel): number[] {
+  const [histogram, setHistogram] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!imageSrc) {
+      // Use setTimeout to avoid synchronous setState warning
+      const timer = setTimeout(() => setHistogram([]), 0);
+      return () => clearTimeout(timer);
+    }
+
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.drawImage(img, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
+
+      // Calculate histogram for the selected channel
+      const hist = new Array(256).fill(0);
+      for (let i = 0; i < data.length; i += 4) {
+        let value: number;
+        if (channel === 'master') {
+          // Luminance: 0.299*R + 0.587*G + 0.114*B
+          value = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+        } else if (channel === 'red') {
+          value = data[i];
+        } else if (channel === 'green') {
+          value = data[i + 1];
+        } else {
+          value = data[i + 2];
+        }
+        hist[value]++;
+      }
+
+      // Normalize histogram to 0-1 range
+      const max = Math.max(...hist);
+      const normalized = hist.map((v) => (max > 0 ? v / max : 0));
+      if (!cancelled) {
+        setHistogram(normalized);
+      }
+    };
+    img.src = imageSrc;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc, channel]);
+
+  return histogram;
+}
@@ -1,11 +1,13 @@
 import { useEffect, useRef } from 'react';
-import { useEditorStore, usePreviewImage, useAdjustments, useCrop } from '@/lib/store';
+import { useEditorStore, usePreviewImage, useAdjustments, useCrop, useMasks, useSpots } from '@/lib/store';
 import { processImage } from '@/lib/image-processing/canvas-utils';
 
 export function useImageProcessing() {
   const previewImage = usePreviewImage();
   const adjustments = useAdjustments();
   const crop = useCrop();
+  const masks = useMasks();
+  const spots = useSpots();
   const setPreviewImage = useEditorStore((state) => state.setPreviewImage);
   const setProcessedImage = useEditorStore((state) => state.setProcessedImage);
   const originalImage = useEditorStore((state) => {
@@ -128,7 +130,11 @@ export function useImageProcessing() {
 
       rafId = requestAnimationFrame(async () => {
         try {
-          const result = await processImage(previewImage, adjustments, crop);
+          const result = await processImage(previewImage, adjustments, crop, {
+            masks,
+            spots,
+            resampling: 'bilinear', // Faster warps for the preview
+          });
           if (active) {
             // Use requestAnimationFrame to update state smoothly
             requestAnimationFrame(() => {
@@ -153,7 +159,7 @@ export function useImageProcessing() {
         cancelAnimationFrame(rafId);
       }
     };
-  }, [previewImage, adjustments, crop, setProcessedImage]);
+  }, [previewImage, adjustments, crop, masks, spots, setProcessedImage]);
 
   return { originalImageRef };
 }
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { debounce } from 'lodash';
+
+interface AdjustmentSliderProps {
+  label: string;
+  value: number;
+  onChange: (value: number[]) => void;
+  min: number;
+  max: number;
+  colorGradient?: 'temperature' | 'tint' | 'hue';
+  defaultValue?: number;
+}
+
+export function AdjustmentSlider({ label, value, onChange, min, max, colorGradient, defaultValue }: AdjustmentSliderProps) {
+  // Calculate default value: use provided defaultValue, or calculate as middle point for symmetric ranges, or default to 0
+  const defaultResetValue = defaultValue !== undefined
+    ? defaultValue
+    : (min < 0 && max > 0)
+      ? 0  // For symmetric ranges (-100 to 100), default is 0 (neutral)
+      : min === 0
+        ? 0  // For ranges starting at 0, default is 0 (original/unadjusted)
+        : Math.round((min + max) / 2);  // Otherwise use middle point
+
+  // Local state for smooth dragging
+  const [localValue, setLocalValue] = useState(value);
+  const isDraggingRef = useRef(false);
+  const lastCommittedValueRef = useRef(value);
+  const debouncedPendingRef = useRef(false);
+
+  // Sync local value when prop value changes (but not during drag)
+  useEffect(() => {
+    if (!isDraggingRef.current) {
+      // Defer state update to avoid synchronous setState in effect
+      requestAnimationFrame(() => {
+        if (!isDraggingRef.current) {
+          setLocalValue(value);
+          lastCommittedValueRef.current = value;
+        }
+      });
+    }
+  }, [value]);
+
+  // Create debounced function using lodash
+  const debouncedUpdateRef = useRef<ReturnType<typeof debounce> | null>(null);
+
+  useEffect(() => {
+    debouncedUpdateRef.current = debounce((newValue: number) => {
+      onChange([newValue]);
+      lastCommittedValueRef.current = newValue;
+      debouncedPendingRef.current = false;
+    }, 50); // 50ms debounce for smooth updates
+
+    return () => {
+      debouncedUpdateRef.current?.cancel();
+    };
+  }, [onChange]);
+
+  const handleValueChange = useCallback((newValue: number[]) => {
+    const val = newValue[0];
+    setLocalValue(val); // Update local state immediately for smooth UI
+    debouncedPendingRef.current = true;
+    debouncedUpdateRef.current?.(val); // Debounced update to store
+  }, []);
+
+  const handleValueCommit = useCallback(() => {
+    // Cancel any pending debounced update
+    debouncedUpdateRef.current?.cancel();
+
+    // Only commit if the value changed and debounced update hasn't already fired
+    if (localValue !== lastCommittedValueRef.current) {
+      onChange([localValue]);
+      lastCommittedValueRef.current = localValue;
+    }
+
+    debouncedPendingRef.current = false;
+    isDraggingRef.current = false;
+  }, [localValue, onChange]);
+
+  const handlePointerDown = useCallback(() => {
+    isDraggingRef.current = true;
+  }, []);
+
+  const handleDoubleClick = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    // Cancel any pending debounced updates
+    debouncedUpdateRef.current?.cancel();
+
+    // Reset to default value
+    setLocalValue(defaultResetValue);
+    onChange([defaultResetValue]);
+    lastCommittedValueRef.current = defaultResetValue;
+    debouncedPendingRef.current = false;
+    isDraggingRef.current = false;
+  }, [defaultResetValue, onChange]);
+
+  // Handle pointer up globally to catch when dragging ends
+  useEffect(() => {
+    const handlePointerUp = () => {
+      if (isDraggingRef.current) {
+        handleValueCommit();
+      }
+    };
+
+    document.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      document.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [handleValueCommit]);
+
+  // Calculate gradient styles for the track
+  const getTrackGradient = () => {
+    if (!colorGradient) return undefined;
+
+    if (colorGradient === 'temperature') {
+      // Blue (cool) to Orange/Red (warm)
+      // Center is neutral white
+      return 'linear-gradient(to right, rgb(59, 130, 246) 0%, rgb(147, 197, 253) 25%, rgb(255, 255, 255) 50%, rgb(255, 200, 150) 75%, rgb(255, 140, 100) 100%)';
+    } else if (colorGradient === 'tint') {
+      // Green to Magenta
+      // Center is neutral white
+      return 'linear-gradient(to right, rgb(34, 197, 94) 0%, rgb(134, 239, 172) 25%, rgb(255, 255, 255) 50%, rgb(250, 200, 250) 75%, rgb(200, 50, 200) 100%)';
+    } else if (colorGradient === 'hue') {
+      // Full color wheel, for 0-360 hue sliders
+      return 'linear-gradient(to right, hsl(0, 80%, 60%), hsl(60, 80%, 60%), hsl(120, 80%, 60%), hsl(180, 80%, 60%), hsl(240, 80%, 60%), hsl(300, 80%, 60%), hsl(360, 80%, 60%))';
+    }
+    return undefined;
+  };
+
+  const trackGradient = getTrackGradient();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-muted-foreground">{label}</span>
+        <span className="tabular-nums text-muted-foreground bg-accent/50 px-1.5 py-0.5 rounded">
+          {localValue}
+        </span>
+      </div>
+      <div onPointerDown={handlePointerDown} onDoubleClick={handleDoubleClick} className="relative">
+        {trackGradient && (
+          <div
+            className="absolute inset-0 pointer-events-none rounded-full"
+            style={{
+              background: trackGradient,
+              height: '6px',
+              top: '50%',
+              transform: 'translateY(-50%)',
+              zIndex: 0,
+            }}
+          />
+        )}
+        <div className="relative z-10">
+          <Slider
+            value={[localValue]}
+            onValueChange={handleValueChange}
+            min={min}
+            max={max}
+            step={1}
+            className={cn(
+              "[&_[role=slider]]:h-3 [&_[role=slider]]:w-3",
+              trackGradient && "[&_[data-slot=slider-track]]:bg-transparent [&_[data-slot=slider-range]]:bg-transparent"
+            )}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,40 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { useAdjustments, useEditorStore, ImageAdjustments, Point } from '@/lib/store';
-import { Slider } from '@/components/ui/slider';
+import { useState } from 'react';
+import {
+  useAdjustments,
+  useEditorStore,
+  ImageAdjustments,
+  Point,
+  HslBand,
+  HslAdjustment,
+  HSL_BANDS,
+  DEFAULT_HSL,
+  CurveChannel,
+  LevelsAdjustment,
+  DEFAULT_LEVELS,
+} from '@/lib/store';
 import { Accordion } from '@/components/ui/accordion';
-import { Sun, Spline, Sparkles, Aperture } from 'lucide-react';
+import { Sun, Spline, Sparkles, Aperture, Palette, ChartColumn } from 'lucide-react';
 import { CurveEditor } from '../widgets/CurveEditor';
+import { LevelsEditor } from '../widgets/LevelsEditor';
 import { cn } from '@/lib/utils';
-import { debounce } from 'lodash';
 import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { MasksPanel } from './MasksPanel';
+import { LensPanel } from './LensPanel';
+import { EffectsPanel } from './EffectsPanel';
+import { BlackWhitePanel } from './BlackWhitePanel';
+import { ColorGradingPanel } from './ColorGradingPanel';
+import { LutPanel } from './LutPanel';
 import { useTranslation } from '@/lib/i18n/useTranslation';
 
 export function AdjustmentsPanel() {
   const adjustments = useAdjustments();
   const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
-  const [activeCurve, setActiveCurve] = useState<'master' | 'red' | 'green' | 'blue'>('master');
+  const [activeCurve, setActiveCurve] = useState<CurveChannel>('master');
+  const [activeLevels, setActiveLevels] = useState<CurveChannel>('master');
+  const [activeHslBand, setActiveHslBand] = useState<HslBand>('red');
   const { t } = useTranslation();
 
   const handleChange = (key: keyof ImageAdjustments) => (value: number[]) => {
@@ -30,6 +50,53 @@ export function AdjustmentsPanel() {
     });
   };
 
+  const levels = adjustments.levels ?? DEFAULT_LEVELS;
+
+  const handleLevelsChange = (channelLevels: LevelsAdjustment) => {
+    updateAdjustments({
+      levels: {
+        ...levels,
+        [activeLevels]: channelLevels,
+      },
+    });
+  };
+
+  const hsl = adjustments.hsl ?? DEFAULT_HSL;
+
+  const handleHslChange = (key: keyof HslAdjustment) => (value: number[]) => {
+    updateAdjustments({
+      hsl: {
+        ...hsl,
+        [activeHslBand]: {
+          ...hsl[activeHslBand],
+          [key]: value[0],
+        },
+      },
+    });
+  };
+
+  const hslBandColors: Record<HslBand, string> = {
+    red: '#ef4444',
+    orange: '#f97316',
+    yellow: '#eab308',
+    green: '#22c55e',
+    aqua: '#06b6d4',
+    blue: '#3b82f6',
+    purple: '#8b5cf6',
+    magenta: '#d946ef',
+  };
+
+  const hslBandLabels: Record<HslBand, string> = {
+    red: t('hslRed'),
+    orange: t('hslOrange'),
+    yellow: t('hslYellow'),
+    green: t('hslGreen'),
+    aqua: t('hslAqua'),
+    blue: t('hslBlue'),
+    purple: t('hslPurple'),
+    magenta: t('hslMagenta'),
+  };
+
   const curveColors = {
     master: 'currentColor',
     red: '#ef4444',
@@ -37,6 +104,13 @@ export function AdjustmentsPanel() {
     blue: '#3b82f6'
   };
 
+  const levelsChannelLabels: Record<CurveChannel, string> = {
+    master: t('levelsChannelRgb'),
+    red: t('levelsChannelRed'),
+    green: t('levelsChannelGreen'),
+    blue: t('levelsChannelBlue'),
+  };
+
   // Reset handlers for each section
   const resetLight = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent accordion toggle
@@ -55,14 +129,37 @@ export function AdjustmentsPanel() {
       tint: 0,
       whiteBalance: 0,
       saturation: 0,
+      vibrance: 0,
+    });
+  };
+
+  const resetHsl = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      hsl: JSON.parse(JSON.stringify(DEFAULT_HSL)),
     });
   };
 
   const resetDetail = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent accordion toggle
     updateAdjustments({
+      clarity: 0,
+      texture: 0,
+      dehaze: 0,
       sharpness: 0,
+      sharpenRadius: 25,
+      sharpenThreshold: 0,
+      sharpenMasking: 0,
       blur: 0,
+      noiseReduction: 0,
+      colorNoiseReduction: 0,
+    });
+  };
+
+  const resetLevels = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      levels: JSON.parse(JSON.stringify(DEFAULT_LEVELS)),
     });
   };
 
@@ -81,7 +178,7 @@ export function AdjustmentsPanel() {
 
   return (
     <div className="w-full h-full">
-      <Accordion type="multiple" defaultValue={["light", "color", "detail", "curves"]} className="w-full">
+      <Accordion type="multiple" defaultValue={["light", "color", "hsl", "blackWhite", "colorGrading", "detail", "lens", "effects", "levels", "curves", "lut", "masks"]} className="w-full">
 
         {/* Light Section */}
         <AdjustmentSection
@@ -159,8 +256,73 @@ export function AdjustmentsPanel() {
             min={-100}
             max={100}
           />
+          <AdjustmentSlider
+            label={t('sliderVibrance')}
+            value={adjustments.vibrance}
+            onChange={handleChange('vibrance')}
+            min={-100}
+            max={100}
+          />
+        </AdjustmentSection>
+
+        {/* HSL / Color Mixer Section */}
+        <AdjustmentSection
+          value="hsl"
+          icon={Palette}
+          title={t('adjustmentsHsl')}
+          onReset={resetHsl}
+          resetTitle={t('resetHsl')}
+        >
+          {/* Band Selector Buttons */}
+          <div className="flex items-center gap-1.5 pb-1">
+            {HSL_BANDS.map((band) => (
+              <button
+                key={band}
+                onClick={() => setActiveHslBand(band)}
+                className={cn(
+                  "flex items-center justify-center w-6 h-6 rounded-full border-2 transition-all",
+                  activeHslBand === band
+                    ? "scale-110"
+                    : "opacity-60 hover:opacity-100"
+                )}
+                style={{
+                  borderColor: activeHslBand === band ? hslBandColors[band] : 'transparent',
+                }}
+                title={hslBandLabels[band]}
+              >
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: hslBandColors[band] }} />
+              </button>
+            ))}
+          </div>
+          <AdjustmentSlider
+            label={t('sliderHue')}
+            value={hsl[activeHslBand].hue}
+            onChange={handleHslChange('hue')}
+            min={-100}
+            max={100}
+          />
+          <AdjustmentSlider
+            label={t('sliderSaturation')}
+            value={hsl[activeHslBand].saturation}
+            onChange={handleHslChange('saturation')}
+            min={-100}
+            max={100}
+          />
+          <AdjustmentSlider
+            label={t('sliderLuminance')}
+            value={hsl[activeHslBand].luminance}
+            onChange={handleHslChange('luminance')}
+            min={-100}
+            max={100}
+          />
         </AdjustmentSection>
 
+        {/* Black & White and Split Toning */}
+        <BlackWhitePanel />
+
+        {/* Color Grading Wheels */}
+        <ColorGradingPanel />
+
         {/* Detail Section */}
         <AdjustmentSection
           value="detail"
@@ -169,6 +331,27 @@ export function AdjustmentsPanel() {
           onReset={resetDetail}
           resetTitle={t('resetDetail')}
         >
+          <AdjustmentSlider
+            label={t('sliderTexture')}
+            value={adjustments.texture}
+            onChange={handleChange('texture')}
+            min={-100}
+            max={100}
+          />
+          <AdjustmentSlider
+            label={t('sliderClarity')}
+            value={adjustments.clarity}
+            onChange={handleChange('clarity')}
+            min={-100}
+            max={100}
+          />
+          <AdjustmentSlider
+            label={t('sliderDehaze')}
+            value={adjustments.dehaze}
+            onChange={handleChange('dehaze')}
+            min={-100}
+            max={100}
+          />
           <AdjustmentSlider
             label={t('sliderSharpness')}
             value={adjustments.sharpness}
@@ -176,6 +359,32 @@ export function AdjustmentsPanel() {
             min={0}
             max={100}
           />
+          {adjustments.sharpness > 0 && (
+            <>
+              <AdjustmentSlider
+                label={t('sliderSharpenRadius')}
+                value={adjustments.sharpenRadius}
+                onChange={handleChange('sharpenRadius')}
+                min={0}
+                max={100}
+                defaultValue={25}
+              />
+              <AdjustmentSlider
+                label={t('sliderSharpenThreshold')}
+                value={adjustments.sharpenThreshold}
+                onChange={handleChange('sharpenThreshold')}
+                min={0}
+                max={100}
+              />
+              <AdjustmentSlider
+                label={t('sliderSharpenMasking')}
+                value={adjustments.sharpenMasking}
+                onChange={handleChange('sharpenMasking')}
+                min={0}
+                max={100}
+              />
+            </>
+          )}
           <AdjustmentSlider
             label={t('sliderBlur')}
             value={adjustments.blur}
@@ -183,6 +392,70 @@ export function AdjustmentsPanel() {
             min={0}
             max={100}
           />
+          <AdjustmentSlider
+            label={t('sliderNoiseReduction')}
+            value={adjustments.noiseReduction}
+            onChange={handleChange('noiseReduction')}
+            min={0}
+            max={100}
+          />
+          <AdjustmentSlider
+            label={t('sliderColorNoiseReduction')}
+            value={adjustments.colorNoiseReduction}
+            onChange={handleChange('colorNoiseReduction')}
+            min={0}
+            max={100}
+          />
+        </AdjustmentSection>
+
+        {/* Lens Corrections */}
+        <LensPanel />
+
+        {/* Post-crop Effects */}
+        <EffectsPanel />
+
+        {/* Levels Section */}
+        <AdjustmentSection
+          value="levels"
+          icon={ChartColumn}
+          title={t('adjustmentsLevels')}
+          onReset={resetLevels}
+          resetTitle={t('resetLevels')}
+        >
+          <div className="space-y-1.5 pb-2">
+            {/* Channel Selector Buttons */}
+            <div className="flex items-center gap-1.5">
+              {(Object.keys(curveColors) as CurveChannel[]).map((channel) => (
+                <button
+                  key={channel}
+                  onClick={() => setActiveLevels(channel)}
+                  className={cn(
+                    "flex items-center justify-center w-6 h-6 rounded-full border-2 transition-all",
+                    activeLevels === channel
+                      ? "scale-110"
+                      : "border-transparent opacity-60 hover:opacity-100"
+                  )}
+                  style={activeLevels === channel ? { borderColor: curveColors[channel] } : undefined}
+                  title={levelsChannelLabels[channel]}
+                >
+                  <div
+                    className={cn(
+                      "w-3 h-3 rounded-full",
+                      channel === 'master' && "bg-gradient-to-br from-white via-gray-400 to-black"
+                    )}
+                    style={channel === 'master' ? undefined : { backgroundColor: curveColors[channel] }}
+                  />
+                </button>
+              ))}
+            </div>
+
+            <LevelsEditor
+              levels={levels[activeLevels]}
+              onChange={handleLevelsChange}
+              color={curveColors[activeLevels]}
+              channel={activeLevels}
+            />
+          </div>
         </AdjustmentSection>
 
         {/* Curves Section */}
@@ -258,172 +531,13 @@ export function AdjustmentsPanel() {
             </div>
           </div>
         </AdjustmentSection>
-      </Accordion>
-    </div>
-  );
-}
 
-interface AdjustmentSliderProps {
-  label: string;
-  value: number;
-  onChange: (value: number[]) => void;
-  min: number;
-  max: number;
-  colorGradient?: 'temperature' | 'tint';
-  defaultValue?: number;
-}
+        {/* Creative LUT */}
+        <LutPanel />
 
-function AdjustmentSlider({ label, value, onChange, min, max, colorGradient, defaultValue }: AdjustmentSliderProps) {
-  // Calculate default value: use provided defaultValue, or calculate as middle point for symmetric ranges, or default to 0
-  const defaultResetValue = defaultValue !== undefined
-    ? defaultValue
-    : (min < 0 && max > 0)
-      ? 0  // For symmetric ranges (-100 to 100), default is 0 (neutral)
-      : min === 0
-        ? 0  // For ranges starting at 0, default is 0 (original/unadjusted)
-        : Math.round((min + max) / 2);  // Otherwise use middle point
-
-  // Local state for smooth dragging
-  const [localValue, setLocalValue] = useState(value);
-  const isDraggingRef = useRef(false);
-  const lastCommittedValueRef = useRef(value);
-  const debouncedPendingRef = useRef(false);
-
-  // Sync local value when prop value changes (but not during drag)
-  useEffect(() => {
-    if (!isDraggingRef.current) {
-      // Defer state update to avoid synchronous setState in effect
-      requestAnimationFrame(() => {
-        if (!isDraggingRef.current) {
-          setLocalValue(value);
-          lastCommittedValueRef.current = value;
-        }
-      });
-    }
-  }, [value]);
-
-  // Create debounced function using lodash
-  const debouncedUpdateRef = useRef<ReturnType<typeof debounce> | null>(null);
-
-  useEffect(() => {
-    debouncedUpdateRef.current = debounce((newValue: number) => {
-      onChange([newValue]);
-      lastCommittedValueRef.current = newValue;
-      debouncedPendingRef.current = false;
-    }, 50); // 50ms debounce for smooth updates
-
-    return () => {
-      debouncedUpdateRef.current?.cancel();
-    };
-  }, [onChange]);
-
-  const handleValueChange = useCallback((newValue: number[]) => {
-    const val = newValue[0];
-    setLocalValue(val); // Update local state immediately for smooth UI
-    debouncedPendingRef.current = true;
-    debouncedUpdateRef.current?.(val); // Debounced update to store
-  }, []);
-
-  const handleValueCommit = useCallback(() => {
-    // Cancel any pending debounced update
-    debouncedUpdateRef.current?.cancel();
-
-    // Only commit if the value changed and debounced update hasn't already fired
-    if (localValue !== lastCommittedValueRef.current) {
-      onChange([localValue]);
-      lastCommittedValueRef.current = localValue;
-    }
-
-    debouncedPendingRef.current = false;
-    isDraggingRef.current = false;
-  }, [localValue, onChange]);
-
-  const handlePointerDown = useCallback(() => {
-    isDraggingRef.current = true;
-  }, []);
-
-  const handleDoubleClick = useCallback((e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    // Cancel any pending debounced updates
-    debouncedUpdateRef.current?.cancel();
-
-    // Reset to default value
-    setLocalValue(defaultResetValue);
-    onChange([defaultResetValue]);
-    lastCommittedValueRef.current = defaultResetValue;
-    debouncedPendingRef.current = false;
-    isDraggingRef.current = false;
-  }, [defaultResetValue, onChange]);
-
-  // Handle pointer up globally to catch when dragging ends
-  useEffect(() => {
-    const handlePointerUp = () => {
-      if (isDraggingRef.current) {
-        handleValueCommit();
-      }
-    };
-
-    document.addEventListener('pointerup', handlePointerUp);
-    return () => {
-      document.removeEventListener('pointerup', handlePointerUp);
-    };
-  }, [handleValueCommit]);
-
-  // Calculate gradient styles for the track
-  const getTrackGradient = () => {
-    if (!colorGradient) return undefined;
-
-    if (colorGradient === 'temperature') {
-      // Blue (cool) to Orange/Red (warm)
-      // Center is neutral white
-      return 'linear-gradient(to right, rgb(59, 130, 246) 0%, rgb(147, 197, 253) 25%, rgb(255, 255, 255) 50%, rgb(255, 200, 150) 75%, rgb(255, 140, 100) 100%)';
-    } else if (colorGradient === 'tint') {
-      // Green to Magenta
-      // Center is neutral white
-      return 'linear-gradient(to right, rgb(34, 197, 94) 0%, rgb(134, 239, 172) 25%, rgb(255, 255, 255) 50%, rgb(250, 200, 250) 75%, rgb(200, 50, 200) 100%)';
-    }
-    return undefined;
-  };
-
-  const trackGradient = getTrackGradient();
-
-  return (
-    <div className="space-y-2">
-      <div className="flex items-center justify-between text-xs">
-        <span className="font-medium text-muted-foreground">{label}</span>
-        <span className="tabular-nums text-muted-foreground bg-accent/50 px-1.5 py-0.5 rounded">
-          {localValue}
-        </span>
-      </div>
-      <div onPointerDown={handlePointerDown} onDoubleClick={handleDoubleClick} className="relative">
-        {trackGradient && (
-          <div
-            className="absolute inset-0 pointer-events-none rounded-full"
-            style={{
-              background: trackGradient,
-              height: '6px',
-              top: '50%',
-              transform: 'translateY(-50%)',
-              zIndex: 0,
-            }}
-          />
-        )}
-        <div className="relative z-10">
-          <Slider
-            value={[localValue]}
-            onValueChange={handleValueChange}
-            min={min}
-            max={max}
-            step={1}
-            className={cn(
-              "[&_[role=slider]]:h-3 [&_[role=slider]]:w-3",
-              trackGradient && "[&_[data-slot=slider-track]]:bg-transparent [&_[data-slot=slider-range]]:bg-transparent"
-            )}
-          />
-        </div>
-      </div>
+        {/* Local Adjustment Masks */}
+        <MasksPanel />
+      </Accordion>
     </div>
   );
 }
@@ -0,0 +1,140 @@
+'use client';
+
+import { useAdjustments, useEditorStore, ImageAdjustments } from '@/lib/store';
+import {
+  BlackWhiteMixKey,
+  BlackWhitePreset,
+  BLACK_WHITE_MIX_KEYS,
+  BLACK_WHITE_PRESETS,
+} from '@/lib/image-processing/monochrome';
+import { Contrast } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import { TranslationKey } from '@/lib/i18n/translations';
+
+const MIX_LABELS: Record<BlackWhiteMixKey, TranslationKey> = {
+  bwRed: 'hslRed',
+  bwOrange: 'hslOrange',
+  bwYellow: 'hslYellow',
+  bwGreen: 'hslGreen',
+  bwAqua: 'hslAqua',
+  bwBlue: 'hslBlue',
+  bwPurple: 'hslPurple',
+  bwMagenta: 'hslMagenta',
+};
+
+const PRESET_LABELS: Record<BlackWhitePreset, TranslationKey> = {
+  neutral: 'blackWhitePresetNeutral',
+  redFilter: 'blackWhitePresetRedFilter',
+  yellowFilter: 'blackWhitePresetYellowFilter',
+  infrared: 'blackWhitePresetInfrared',
+};
+
+const TONING_SLIDERS: {
+  key: keyof ImageAdjustments;
+  label: TranslationKey;
+  min: number;
+  max: number;
+  defaultValue: number;
+  hue?: boolean;
+}[] = [
+  { key: 'toneHighlightHue', label: 'sliderToneHighlightHue', min: 0, max: 360, defaultValue: 45, hue: true },
+  { key: 'toneHighlightSaturation', label: 'sliderToneHighlightSaturation', min: 0, max: 100, defaultValue: 0 },
+  { key: 'toneBalance', label: 'sliderToneBalance', min: -100, max: 100, defaultValue: 0 },
+  { key: 'toneShadowHue', label: 'sliderToneShadowHue', min: 0, max: 360, defaultValue: 220, hue: true },
+  { key: 'toneShadowSaturation', label: 'sliderToneShadowSaturation', min: 0, max: 100, defaultValue: 0 },
+];
+
+export function BlackWhitePanel() {
+  const adjustments = useAdjustments();
+  const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
+  const { t } = useTranslation();
+
+  const activePreset = (Object.keys(BLACK_WHITE_PRESETS) as BlackWhitePreset[]).find((preset) =>
+    BLACK_WHITE_MIX_KEYS.every((key) => adjustments[key] === BLACK_WHITE_PRESETS[preset][key])
+  );
+
+  const resetBlackWhite = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      monochrome: false,
+      ...BLACK_WHITE_PRESETS.neutral,
+      toneHighlightHue: 45,
+      toneHighlightSaturation: 0,
+      toneShadowHue: 220,
+      toneShadowSaturation: 0,
+      toneBalance: 0,
+    });
+  };
+
+  return (
+    <AdjustmentSection
+      value="blackWhite"
+      icon={Contrast}
+      title={t('adjustmentsBlackWhite')}
+      onReset={resetBlackWhite}
+      resetTitle={t('resetBlackWhite')}
+    >
+      <button
+        onClick={() => updateAdjustments({ monochrome: !adjustments.monochrome })}
+        className={cn(
+          "flex w-full items-center justify-center h-6 rounded border text-[11px] transition-colors",
+          adjustments.monochrome
+            ? "bg-accent text-foreground"
+            : "text-muted-foreground hover:text-foreground hover:bg-accent"
+        )}
+        aria-pressed={adjustments.monochrome}
+      >
+        {t('blackWhiteConvert')}
+      </button>
+
+      {adjustments.monochrome && (
+        <>
+          <p className="text-[11px] font-medium text-muted-foreground">{t('blackWhiteMix')}</p>
+          <div className="grid grid-cols-2 gap-1">
+            {(Object.keys(BLACK_WHITE_PRESETS) as BlackWhitePreset[]).map((preset) => (
+              <button
+                key={preset}
+                onClick={() => updateAdjustments({ ...BLACK_WHITE_PRESETS[preset] })}
+                className={cn(
+                  "h-6 rounded border text-[11px] transition-colors",
+                  activePreset === preset
+                    ? "bg-accent text-foreground"
+                    : "text-muted-foreground hover:text-foreground hover:bg-accent"
+                )}
+              >
+                {t(PRESET_LABELS[preset])}
+              </button>
+            ))}
+          </div>
+          {BLACK_WHITE_MIX_KEYS.map((key) => (
+            <AdjustmentSlider
+              key={key}
+              label={t(MIX_LABELS[key])}
+              value={adjustments[key]}
+              onChange={(v) => updateAdjustments({ [key]: v[0] })}
+              min={-100}
+              max={100}
+            />
+          ))}
+        </>
+      )}
+
+      <p className="text-[11px] font-medium text-muted-foreground pt-1 border-t">{t('splitToning')}</p>
+      {TONING_SLIDERS.map(({ key, label, min, max, defaultValue, hue }) => (
+        <AdjustmentSlider
+          key={key}
+          label={t(label)}
+          value={adjustments[key] as number}
+          onChange={(v) => updateAdjustments({ [key]: v[0] })}
+          min={min}
+          max={max}
+          defaultValue={defaultValue}
+          colorGradient={hue ? 'hue' : undefined}
+        />
+      ))}
+    </AdjustmentSection>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useAdjustments, useEditorStore, ImageAdjustments } from '@/lib/store';
+import { Blend } from 'lucide-react';
+import { ColorWheel, WheelColor } from '../widgets/ColorWheel';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import { TranslationKey } from '@/lib/i18n/translations';
+
+interface GradeWheel {
+  hue: keyof ImageAdjustments;
+  saturation: keyof ImageAdjustments;
+  luminance: keyof ImageAdjustments;
+  label: TranslationKey;
+  luminanceLabel: TranslationKey;
+}
+
+const GRADE_WHEELS: GradeWheel[] = [
+  {
+    hue: 'gradeShadowHue',
+    saturation: 'gradeShadowSaturation',
+    luminance: 'gradeShadowLuminance',
+    label: 'gradeShadows',
+    luminanceLabel: 'sliderGradeShadowLuminance',
+  },
+  {
+    hue: 'gradeMidtoneHue',
+    saturation: 'gradeMidtoneSaturation',
+    luminance: 'gradeMidtoneLuminance',
+    label: 'gradeMidtones',
+    luminanceLabel: 'sliderGradeMidtoneLuminance',
+  },
+  {
+    hue: 'gradeHighlightHue',
+    saturation: 'gradeHighlightSaturation',
+    luminance: 'gradeHighlightLuminance',
+    label: 'gradeHighlights',
+    luminanceLabel: 'sliderGradeHighlightLuminance',
+  },
+];
+
+export function ColorGradingPanel() {
+  const adjustments = useAdjustments();
+  const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
+  const { t } = useTranslation();
+
+  const resetColorGrading = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      gradeShadowHue: 0,
+      gradeShadowSaturation: 0,
+      gradeShadowLuminance: 0,
+      gradeMidtoneHue: 0,
+      gradeMidtoneSaturation: 0,
+      gradeMidtoneLuminance: 0,
+      gradeHighlightHue: 0,
+      gradeHighlightSaturation: 0,
+      gradeHighlightLuminance: 0,
+      gradeBlending: 50,
+      gradeBalance: 0,
+    });
+  };
+
+  const handleWheelChange = (wheel: GradeWheel) => (color: WheelColor) => {
+    updateAdjustments({ [wheel.hue]: color.hue, [wheel.saturation]: color.saturation });
+  };
+
+  return (
+    <AdjustmentSection
+      value="colorGrading"
+      icon={Blend}
+      title={t('adjustmentsColorGrading')}
+      onReset={resetColorGrading}
+      resetTitle={t('resetColorGrading')}
+    >
+      <div className="grid grid-cols-3 gap-3">
+        {GRADE_WHEELS.map((wheel) => {
+          const hue = adjustments[wheel.hue] as number;
+          const saturation = adjustments[wheel.saturation] as number;
+          return (
+            <div key={wheel.label} className="space-y-1 text-center">
+              <ColorWheel
+                value={{ hue, saturation }}
+                onChange={handleWheelChange(wheel)}
+                title={t('colorWheelHint')}
+              />
+              <p className="text-[11px] font-medium text-muted-foreground">{t(wheel.label)}</p>
+              <p className="text-[10px] tabular-nums text-muted-foreground">
+                {hue}° · {saturation}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {GRADE_WHEELS.map((wheel) => (
+        <AdjustmentSlider
+          key={wheel.luminance}
+          label={t(wheel.luminanceLabel)}
+          value={adjustments[wheel.luminance] as number}
+          onChange={(v) => updateAdjustments({ [wheel.luminance]: v[0] })}
+          min={-100}
+          max={100}
+        />
+      ))}
+      <AdjustmentSlider
+        label={t('sliderGradeBlending')}
+        value={adjustments.gradeBlending}
+        onChange={(v) => updateAdjustments({ gradeBlending: v[0] })}
+        min={0}
+        max={100}
+        defaultValue={50}
+      />
+      <AdjustmentSlider
+        label={t('sliderGradeBalance')}
+        value={adjustments.gradeBalance}
+        onChange={(v) => updateAdjustments({ gradeBalance: v[0] })}
+        min={-100}
+        max={100}
+      />
+    </AdjustmentSection>
+  );
+}
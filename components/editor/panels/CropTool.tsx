@@ -2,13 +2,31 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import ReactCrop, { type Crop, type PixelCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
-import { useEditorStore, useCrop } from '@/lib/store';
+import { useEditorStore, useCrop, getImageFileInfo, CropState, CropAspectPreset } from '@/lib/store';
+import { readImageFiles } from '@/lib/image-processing/image-import';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { Check, X, Loader2, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, X, Loader2, Plus, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, ArrowLeftRight, Ruler, Wand2, Grid2x2, RotateCcwSquare } from 'lucide-react';
 import 'react-image-crop/dist/ReactCrop.css';
+import { CropOverlay, CropOverlayType, CROP_OVERLAY_TYPES } from '../components/CropOverlay';
+import {
+  getLargestInscribedRect,
+  getStraightenAngle,
+  normalizeRotation,
+} from '@/lib/image-processing/crop-geometry';
+import { getPerspectiveCssTransform } from '@/lib/image-processing/perspective';
+import { detectHorizon } from '@/lib/image-processing/canvas-utils';
 import { useTranslation } from '@/lib/i18n/useTranslation';
+import type { TranslationKey } from '@/lib/i18n/translations';
 
 interface CropToolProps {
   onClose: () => void;
@@ -41,6 +59,127 @@ type Dimensions = {
   height: number;
 };
 
+type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+type OrientationChange = 'rotateLeft' | 'rotateRight' | 'flipHorizontal' | 'flipVertical';
+
+// Move a crop rectangle along with the image when it is turned or mirrored.
+// The frame is the size of the coordinate space before the change.
+function orientRect<T extends Rect>(rect: T, frame: Dimensions, change: OrientationChange): T {
+  switch (change) {
+    case 'rotateRight':
+      return { ...rect, x: frame.height - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width };
+    case 'rotateLeft':
+      return { ...rect, x: rect.y, y: frame.width - rect.x - rect.width, width: rect.height, height: rect.width };
+    case 'flipHorizontal':
+      return { ...rect, x: frame.width - rect.x - rect.width };
+    case 'flipVertical':
+      return { ...rect, y: frame.height - rect.y - rect.height };
+  }
+}
+
+// Fixed ratios (width / height) of the aspect presets, as written
+const ASPECT_PRESET_RATIOS: Partial<Record<CropAspectPreset, number>> = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '3:2': 3 / 2,
+  '16:9': 16 / 9,
+};
+
+const ASPECT_PRESETS: Array<{ preset: CropAspectPreset; label?: TranslationKey }> = [
+  { preset: 'free', label: 'cropAspectFree' },
+  { preset: 'original', label: 'cropAspectOriginal' },
+  { preset: '1:1' },
+  { preset: '4:5' },
+  { preset: '3:2' },
+  { preset: '16:9' },
+  { preset: 'custom', label: 'cropAspectCustom' },
+];
+
+const RECT_FIELDS: Array<keyof Rect> = ['x', 'y', 'width', 'height'];
+
+const RECT_FIELD_LABELS: Record<keyof Rect, string> = {
+  x: 'X',
+  y: 'Y',
+  width: 'W',
+  height: 'H',
+};
+
+const OVERLAY_LABEL_KEYS: Record<CropOverlayType, TranslationKey> = {
+  none: 'cropOverlayNone',
+  thirds: 'cropOverlayThirds',
+  phi: 'cropOverlayPhi',
+  spiral: 'cropOverlaySpiral',
+  diagonals: 'cropOverlayDiagonals',
+  center: 'cropOverlayCenter',
+};
+
+const PERSPECTIVE_SLIDERS: Array<{
+  key: 'perspectiveVertical' | 'perspectiveHorizontal';
+  label: TranslationKey;
+}> = [
+  { key: 'perspectiveVertical', label: 'cropPerspectiveVertical' },
+  { key: 'perspectiveHorizontal', label: 'cropPerspectiveHorizontal' },
+];
+
+// Perspective settings live in the oriented frame, so they turn and mirror
+// with it: slider edges move to their new sides and guided corners are
+// remapped and reordered to start at the new top-left
+function orientPerspective(crop: CropState, change: OrientationChange): Partial<CropState> {
+  const corners = crop.perspectiveCorners;
+  const { perspectiveVertical: vertical, perspectiveHorizontal: horizontal } = crop;
+
+  switch (change) {
+    case 'rotateRight':
+      return {
+        perspectiveVertical: horizontal,
+        perspectiveHorizontal: -vertical,
+        perspectiveCorners: corners && [corners[3], corners[0], corners[1], corners[2]]
+          .map(p => ({ x: 1 - p.y, y: p.x })) as CropState['perspectiveCorners'],
+      };
+    case 'rotateLeft':
+      return {
+        perspectiveVertical: -horizontal,
+        perspectiveHorizontal: vertical,
+        perspectiveCorners: corners && [corners[1], corners[2], corners[3], corners[0]]
+          .map(p => ({ x: p.y, y: 1 - p.x })) as CropState['perspectiveCorners'],
+      };
+    case 'flipHorizontal':
+      return {
+        perspectiveHorizontal: -horizontal,
+        perspectiveCorners: corners && [corners[1], corners[0], corners[3], corners[2]]
+          .map(p => ({ x: 1 - p.x, y: p.y })) as CropState['perspectiveCorners'],
+      };
+    case 'flipVertical':
+      return {
+        perspectiveVertical: -vertical,
+        perspectiveCorners: corners && [corners[3], corners[2], corners[1], corners[0]]
+          .map(p => ({ x: p.x, y: 1 - p.y })) as CropState['perspectiveCorners'],
+      };
+  }
+}
+
+const ORIENTATION_BUTTONS: Array<{
+  change: OrientationChange;
+  icon: typeof RotateCw;
+  label: TranslationKey;
+}> = [
+  { change: 'rotateLeft', icon: RotateCcw, label: 'cropRotateLeft' },
+  { change: 'rotateRight', icon: RotateCw, label: 'cropRotateRight' },
+  { change: 'flipHorizontal', icon: FlipHorizontal2, label: 'cropFlipHorizontal' },
+  { change: 'flipVertical', icon: FlipVertical2, label: 'cropFlipVertical' },
+];
+
 export function CropTool({ onClose }: CropToolProps) {
   const {
     images,
@@ -63,6 +202,30 @@ export function CropTool({ onClose }: CropToolProps) {
   const [rotation, setRotation] = useState(crop.rotation || 0);
   const [imageDimensions, setImageDimensions] = useState<Dimensions | null>(null);
   const [viewportSize, setViewportSize] = useState<Dimensions | null>(null);
+  // Custom W:H entry, shown as the stored ratio against 1 when reopened
+  const [customAspect, setCustomAspect] = useState<Dimensions>(() => ({
+    width: Number(crop.aspectRatio.toFixed(2)),
+    height: 1,
+  }));
+
+  const [overlay, setOverlay] = useState<CropOverlayType>('thirds');
+  const [spiralOrientation, setSpiralOrientation] = useState(0);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [isStraightening, setIsStraightening] = useState(false);
+  const [straightenLine, setStraightenLine] = useState<{ start: Point; end: Point } | null>(null);
+  // Guided upright corners while they are being placed
+  const [guidedCorners, setGuidedCorners] = useState<CropState['perspectiveCorners']>(null);
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null);
+  // Auto-straighten result, previewed until accepted or discarded
+  const [proposedRotation, setProposedRotation] = useState<number | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  const aspect = crop.aspectPreset === 'free' ? undefined : crop.aspectRatio;
+  const isSwapped = crop.quarterTurns % 2 === 1;
+  // Natural size of the image as displayed, after quarter turns
+  const orientedSize = imageDimensions && (isSwapped
+    ? { width: imageDimensions.height, height: imageDimensions.width }
+    : imageDimensions);
 
   const updateViewportSize = useCallback(
     (dims?: Dimensions) => {
@@ -78,7 +241,10 @@ export function CropTool({ onClose }: CropToolProps) {
         return { width: 0, height: 0 };
       }
 
-      const aspect = currentDims.width / currentDims.height;
+      // A quarter turn swaps the displayed width and height
+      const aspect = crop.quarterTurns % 2 === 1
+        ? currentDims.height / currentDims.width
+        : currentDims.width / currentDims.height;
 
       let height = clientHeight;
       let width = height * aspect;
@@ -92,7 +258,7 @@ export function CropTool({ onClose }: CropToolProps) {
 
       return { width, height };
     },
-    [imageDimensions]
+    [imageDimensions, crop.quarterTurns]
   );
 
   const onImageLoad = useCallback(
@@ -108,20 +274,22 @@ export function CropTool({ onClose }: CropToolProps) {
       // If we have existing crop, restore it; otherwise center crop
       if (crop.width > 0 && crop.height > 0) {
         // Convert pixel crop to percent crop for react-image-crop
+        const frameWidth = crop.sourceWidth || viewportWidth;
+        const frameHeight = crop.sourceHeight || viewportHeight;
         const percentCrop: Crop = {
           unit: '%',
-          x: (crop.x / viewportWidth) * 100,
-          y: (crop.y / viewportHeight) * 100,
-          width: (crop.width / viewportWidth) * 100,
-          height: (crop.height / viewportHeight) * 100,
+          x: (crop.x / frameWidth) * 100,
+          y: (crop.y / frameHeight) * 100,
+          width: (crop.width / frameWidth) * 100,
+          height: (crop.height / frameHeight) * 100,
         };
         setCropState(percentCrop);
       } else {
-        const newCrop = centerAspectCrop(viewportWidth, viewportHeight, undefined);
+        const newCrop = centerAspectCrop(viewportWidth, viewportHeight, aspect);
         setCropState(newCrop);
       }
     },
-    [crop, updateViewportSize]
+    [crop, aspect, updateViewportSize]
   );
 
   useEffect(() => {
@@ -150,22 +318,104 @@ export function CropTool({ onClose }: CropToolProps) {
     setCompletedCrop(crop);
   }, []);
 
+  // Set the selection programmatically (react-image-crop only reports
+  // completed crops for pointer interaction)
+  const setSelection = (percentCrop: Crop) => {
+    setCropState(percentCrop);
+    if (viewportSize) {
+      setCompletedCrop({
+        unit: 'px',
+        x: (percentCrop.x / 100) * viewportSize.width,
+        y: (percentCrop.y / 100) * viewportSize.height,
+        width: (percentCrop.width / 100) * viewportSize.width,
+        height: (percentCrop.height / 100) * viewportSize.height,
+      });
+    }
+  };
+
+  const handleAspectChange = (aspectPreset: CropAspectPreset, aspectRatio: number) => {
+    updateCrop({ aspectPreset, aspectRatio });
+    if (aspectPreset !== 'free' && viewportSize) {
+      setSelection(centerAspectCrop(viewportSize.width, viewportSize.height, aspectRatio));
+    }
+  };
+
+  const handlePresetChange = (preset: CropAspectPreset) => {
+    if (preset === 'original') {
+      const ratio = orientedSize ? orientedSize.width / orientedSize.height : 1;
+      handleAspectChange(preset, ratio);
+    } else if (preset === 'custom') {
+      handleAspectChange(preset, customAspect.width / customAspect.height);
+    } else {
+      handleAspectChange(preset, ASPECT_PRESET_RATIOS[preset] ?? crop.aspectRatio);
+    }
+  };
+
+  const handleCustomAspectChange = (updates: Partial<Dimensions>) => {
+    const next = { ...customAspect, ...updates };
+    setCustomAspect(next);
+    if (next.width > 0 && next.height > 0) {
+      handleAspectChange('custom', next.width / next.height);
+    }
+  };
+
+  const handleSwapAspect = () => {
+    if (crop.aspectPreset === 'free') return;
+    if (crop.aspectPreset === 'custom') {
+      setCustomAspect({ width: customAspect.height, height: customAspect.width });
+    }
+    handleAspectChange(crop.aspectPreset, 1 / crop.aspectRatio);
+  };
+
+  // Numeric entry works in source pixels of the oriented image
+  const handleRectChange = (field: keyof Rect, value: number) => {
+    if (!cropState || !orientedSize || !Number.isFinite(value)) return;
+    const { width: maxWidth, height: maxHeight } = orientedSize;
+    const rect: Rect = {
+      x: (cropState.x / 100) * maxWidth,
+      y: (cropState.y / 100) * maxHeight,
+      width: (cropState.width / 100) * maxWidth,
+      height: (cropState.height / 100) * maxHeight,
+    };
+    rect[field] = value;
+
+    // Keep the ratio by deriving the other side, shrinking to fit if needed
+    if (aspect) {
+      if (field === 'height') rect.width = rect.height * aspect;
+      rect.width = Math.max(1, Math.min(rect.width, maxWidth, maxHeight * aspect));
+      rect.height = rect.width / aspect;
+    } else {
+      rect.width = Math.max(1, Math.min(rect.width, maxWidth));
+      rect.height = Math.max(1, Math.min(rect.height, maxHeight));
+    }
+    rect.x = Math.max(0, Math.min(rect.x, maxWidth - rect.width));
+    rect.y = Math.max(0, Math.min(rect.y, maxHeight - rect.height));
+
+    setSelection({
+      unit: '%',
+      x: (rect.x / maxWidth) * 100,
+      y: (rect.y / maxHeight) * 100,
+      width: (rect.width / maxWidth) * 100,
+      height: (rect.height / maxHeight) * 100,
+    });
+  };
+
   const handleAddImage = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !file.type.startsWith('image/')) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        addImage(event.target.result as string);
-        // Reset crop state for new image
-        setCropState(undefined);
-        setCompletedCrop(null);
-        setImageDimensions(null);
-        setViewportSize(null);
+    readImageFiles([file]).then(({ images: [loaded] }) => {
+      if (!loaded) {
+        alert(t('importError', { names: file.name }));
+        return;
       }
-    };
-    reader.readAsDataURL(file);
+      addImage(loaded.src, getImageFileInfo(file));
+      // Reset crop state for new image
+      setCropState(undefined);
+      setCompletedCrop(null);
+      setImageDimensions(null);
+      setViewportSize(null);
+    });
     // Reset input
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -189,6 +439,180 @@ export function CropTool({ onClose }: CropToolProps) {
     updateCrop({ rotation: newRotation });
   };
 
+  // Rotate and select the largest centered crop with no empty corners
+  const straightenTo = (newRotation: number) => {
+    const normalized = Math.round(normalizeRotation(newRotation) * 10) / 10;
+    handleRotationChange(normalized);
+    if (!viewportSize) return;
+
+    const { width, height } = viewportSize;
+    const rect = getLargestInscribedRect(width, height, normalized, aspect);
+    setSelection({
+      unit: '%',
+      x: ((width - rect.width) / 2 / width) * 100,
+      y: ((height - rect.height) / 2 / height) * 100,
+      width: (rect.width / width) * 100,
+      height: (rect.height / height) * 100,
+    });
+  };
+
+  const handleAutoStraighten = async () => {
+    if (!currentImage) return;
+    setIsDetecting(true);
+    try {
+      // Analysis runs on the unrotated source, where a mirror flips the tilt
+      const tilt = await detectHorizon(currentImage.previewImage || currentImage.originalImage);
+      if (tilt === null) {
+        alert(t('cropAutoStraightenNone'));
+        return;
+      }
+      const mirrored = crop.flipH !== crop.flipV;
+      setProposedRotation(normalizeRotation(mirrored ? tilt : -tilt));
+    } catch (error) {
+      console.error('Horizon detection failed', error);
+      alert(t('cropAutoStraightenError'));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handlePerspectiveChange = (updates: Partial<CropState>) => {
+    setIsAdjusting(true);
+    updateCrop(updates);
+  };
+
+  const resetPerspective = () => {
+    setGuidedCorners(null);
+    updateCrop({ perspectiveVertical: 0, perspectiveHorizontal: 0, perspectiveCorners: null });
+  };
+
+  // Guided upright: place four corners on lines that should end up vertical
+  // and horizontal. The image is shown unwarped while they are edited.
+  const toggleGuided = () => {
+    if (guidedCorners) {
+      updateCrop({ perspectiveCorners: guidedCorners });
+      setGuidedCorners(null);
+      return;
+    }
+    setIsStraightening(false);
+    setGuidedCorners(crop.perspectiveCorners ?? [
+      { x: 0.2, y: 0.2 },
+      { x: 0.8, y: 0.2 },
+      { x: 0.8, y: 0.8 },
+      { x: 0.2, y: 0.8 },
+    ]);
+  };
+
+  const handleGuidedMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (draggedCorner === null || !guidedCorners) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+    const next = [...guidedCorners] as NonNullable<CropState['perspectiveCorners']>;
+    next[draggedCorner] = point;
+    setGuidedCorners(next);
+  };
+
+  const getStraightenPoint = (e: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleStraightenDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getStraightenPoint(e);
+    setStraightenLine({ start: point, end: point });
+  };
+
+  const handleStraightenMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!straightenLine) return;
+    setStraightenLine({ ...straightenLine, end: getStraightenPoint(e) });
+  };
+
+  // The line is drawn over the already rotated image, so its angle adds to
+  // the current rotation. Very short drags are treated as misclicks.
+  const handleStraightenUp = () => {
+    if (straightenLine) {
+      const { start, end } = straightenLine;
+      if (Math.hypot(end.x - start.x, end.y - start.y) >= 10) {
+        straightenTo(rotation + getStraightenAngle(start, end));
+        setIsStraightening(false);
+      }
+    }
+    setStraightenLine(null);
+  };
+
+  // Turn or mirror the image, keeping both the applied crop and the current
+  // selection on the same part of the picture
+  const handleOrientationChange = useCallback((change: OrientationChange) => {
+    const isRotation = change === 'rotateLeft' || change === 'rotateRight';
+    const updates: Partial<CropState> = isRotation
+      ? {
+        quarterTurns: (crop.quarterTurns + (change === 'rotateRight' ? 1 : 3)) % 4,
+        // Mirroring happens after the turn, so turning swaps the flip axes
+        flipH: crop.flipV,
+        flipV: crop.flipH,
+      }
+      : change === 'flipHorizontal'
+        ? { flipH: !crop.flipH }
+        : { flipV: !crop.flipV };
+
+    // The selection turns with the image, so a fixed ratio flips too
+    if (isRotation && crop.aspectPreset !== 'free') {
+      updates.aspectRatio = 1 / crop.aspectRatio;
+      setCustomAspect(prev => ({ width: prev.height, height: prev.width }));
+    }
+
+    Object.assign(updates, orientPerspective(crop, change));
+
+    if (crop.width > 0 && crop.height > 0) {
+      const frame = { width: crop.sourceWidth, height: crop.sourceHeight };
+      Object.assign(updates, orientRect(crop, frame, change));
+      if (isRotation) {
+        updates.sourceWidth = crop.sourceHeight;
+        updates.sourceHeight = crop.sourceWidth;
+      }
+    }
+    updateCrop(updates);
+
+    setCropState(prev => prev && orientRect(prev, { width: 100, height: 100 }, change));
+    setCompletedCrop(null);
+  }, [crop, updateCrop]);
+
+  // [ and ] turn the image, H and V mirror it, O cycles the overlays and
+  // Shift+O turns the golden spiral
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      if (e.key.toLowerCase() === 'o') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          setSpiralOrientation(prev => (prev + 1) % 4);
+        } else {
+          setOverlay(prev => CROP_OVERLAY_TYPES[(CROP_OVERLAY_TYPES.indexOf(prev) + 1) % CROP_OVERLAY_TYPES.length]);
+        }
+        return;
+      }
+
+      const change: OrientationChange | null =
+        e.key === '[' ? 'rotateLeft'
+          : e.key === ']' ? 'rotateRight'
+            : e.key.toLowerCase() === 'h' ? 'flipHorizontal'
+              : e.key.toLowerCase() === 'v' ? 'flipVertical'
+                : null;
+      if (change) {
+        e.preventDefault();
+        handleOrientationChange(change);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleOrientationChange]);
+
   const handleApply = () => {
     if (completedCrop && imgRef.current && currentImage) {
       const crop = {
@@ -199,7 +623,6 @@ export function CropTool({ onClose }: CropToolProps) {
         rotation: rotation,
         sourceWidth: viewportSize?.width ?? 0,
         sourceHeight: viewportSize?.height ?? 0,
-        aspectRatio: completedCrop.width / completedCrop.height,
       }
       updateCrop(crop);
     }
@@ -216,6 +639,21 @@ export function CropTool({ onClose }: CropToolProps) {
     viewportSize.width > 0 &&
     viewportSize.height > 0
 
+  // The image element fills the oriented box, so when a quarter turn swaps
+  // the axes it is first stretched back to its own aspect ratio
+  // Rotation and perspective are left out while guided corners are placed
+  const displayRotation = guidedCorners ? 0 : proposedRotation ?? rotation;
+  const perspectiveTransform = !guidedCorners && viewportSize
+    ? getPerspectiveCssTransform(crop, viewportSize.width, viewportSize.height)
+    : null;
+  const imageTransform = [
+    displayRotation !== 0 && `rotate(${displayRotation}deg)`,
+    perspectiveTransform,
+    (crop.flipH || crop.flipV) && `scale(${crop.flipH ? -1 : 1}, ${crop.flipV ? -1 : 1})`,
+    crop.quarterTurns !== 0 && `rotate(${crop.quarterTurns * 90}deg)`,
+    isSwapped && imageDimensions && `scale(${imageDimensions.width / imageDimensions.height}, ${imageDimensions.height / imageDimensions.width})`,
+  ].filter(Boolean).join(' ');
+
   return (
     <div className="absolute inset-0 z-50 bg-background flex flex-col">
       <div
@@ -230,8 +668,36 @@ export function CropTool({ onClose }: CropToolProps) {
           </div>
         )}
 
+        {isViewportReady && proposedRotation !== null && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-black/70 backdrop-blur-sm px-4 py-2 rounded-lg text-white">
+            <p className="text-sm">
+              {t('cropAutoStraightenResult', {
+                angle: (proposedRotation > 180 ? proposedRotation - 360 : proposedRotation).toFixed(1),
+              })}
+            </p>
+            <Button size="sm" variant="secondary" onClick={() => setProposedRotation(null)}>
+              {t('cropAutoStraightenDiscard')}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                straightenTo(proposedRotation);
+                setProposedRotation(null);
+              }}
+            >
+              {t('cropAutoStraightenApply')}
+            </Button>
+          </div>
+        )}
+
+        {isViewportReady && isStraightening && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-black/70 backdrop-blur-sm px-4 py-2 rounded-lg text-white">
+            <p className="text-sm">{t('cropStraightenHint')}</p>
+          </div>
+        )}
+
         <div
-          className="flex items-center justify-center"
+          className="relative flex items-center justify-center"
           style={{
             display: isViewportReady ? 'flex' : 'none',
             width: viewportSize?.width ?? 'auto',
@@ -242,8 +708,15 @@ export function CropTool({ onClose }: CropToolProps) {
             crop={cropState}
             onChange={handleChange}
             onComplete={handleComplete}
-            aspect={undefined}
+            aspect={aspect}
             className="w-full h-full"
+            renderSelectionAddon={() => (
+              <CropOverlay
+                type={overlay}
+                spiralOrientation={spiralOrientation}
+                showFineGrid={isAdjusting || proposedRotation !== null || perspectiveTransform !== null}
+              />
+            )}
           >
             {/* eslint-disable-next-line @next/next/no-img-element */}
             <img
@@ -256,11 +729,69 @@ export function CropTool({ onClose }: CropToolProps) {
                 width: '100%',
                 height: '100%',
                 objectFit: 'fill',
-                transform: rotation !== 0 ? `rotate(${rotation}deg)` : undefined,
+                transform: imageTransform || undefined,
                 transition: 'transform 0.2s',
               }}
             />
           </ReactCrop>
+
+          {/* Straighten: drag a line along a horizon or vertical edge */}
+          {isStraightening && (
+            <svg
+              className="absolute inset-0 w-full h-full z-10 cursor-crosshair touch-none"
+              onPointerDown={handleStraightenDown}
+              onPointerMove={handleStraightenMove}
+              onPointerUp={handleStraightenUp}
+            >
+              {straightenLine && (
+                <line
+                  x1={straightenLine.start.x}
+                  y1={straightenLine.start.y}
+                  x2={straightenLine.end.x}
+                  y2={straightenLine.end.y}
+                  stroke="white"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.8))' }}
+                />
+              )}
+            </svg>
+          )}
+
+          {/* Guided upright: drag the corners onto converging lines */}
+          {guidedCorners && (
+            <svg
+              className="absolute inset-0 w-full h-full z-10 touch-none"
+              onPointerMove={handleGuidedMove}
+              onPointerUp={() => setDraggedCorner(null)}
+            >
+              <polygon
+                points={guidedCorners
+                  .map(p => `${p.x * (viewportSize?.width ?? 0)},${p.y * (viewportSize?.height ?? 0)}`)
+                  .join(' ')}
+                fill="rgba(255,255,255,0.08)"
+                stroke="white"
+                strokeWidth={1.5}
+                style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.8))' }}
+              />
+              {guidedCorners.map((p, index) => (
+                <circle
+                  key={index}
+                  cx={p.x * (viewportSize?.width ?? 0)}
+                  cy={p.y * (viewportSize?.height ?? 0)}
+                  r={7}
+                  fill="white"
+                  stroke="black"
+                  strokeWidth={1}
+                  className="cursor-move"
+                  onPointerDown={(e) => {
+                    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                    setDraggedCorner(index);
+                  }}
+                />
+              ))}
+            </svg>
+          )}
         </div>
       </div>
 
@@ -311,6 +842,38 @@ export function CropTool({ onClose }: CropToolProps) {
 
         <div className="p-6 flex flex-col gap-6">
           <div className="flex items-center gap-8 max-w-2xl mx-auto w-full">
+            <div className="flex items-center gap-1">
+              {ORIENTATION_BUTTONS.map(({ change, icon: Icon, label }) => (
+                <Button
+                  key={change}
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleOrientationChange(change)}
+                  title={t(label)}
+                >
+                  <Icon className="w-4 h-4" />
+                </Button>
+              ))}
+              <Button
+                variant={isStraightening ? 'secondary' : 'outline'}
+                size="icon"
+                onClick={() => setIsStraightening(prev => !prev)}
+                title={t('cropStraighten')}
+              >
+                <Ruler className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleAutoStraighten}
+                disabled={isDetecting}
+                title={t('cropAutoStraighten')}
+              >
+                {isDetecting
+                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                  : <Wand2 className="w-4 h-4" />}
+              </Button>
+            </div>
             <div className="flex-1 space-y-3">
               <div className="flex justify-between">
                 <Label>{t('cropRotation')}</Label>
@@ -321,11 +884,142 @@ export function CropTool({ onClose }: CropToolProps) {
                 min={0}
                 max={360}
                 step={1}
-                onValueChange={(v) => handleRotationChange(v[0])}
+                onValueChange={(v) => {
+                  setIsAdjusting(true);
+                  handleRotationChange(v[0]);
+                }}
+                onValueCommit={() => setIsAdjusting(false)}
               />
             </div>
           </div>
 
+          {/* Perspective */}
+          <div className="flex items-center gap-4 max-w-2xl mx-auto w-full">
+            {PERSPECTIVE_SLIDERS.map(({ key, label }) => (
+              <div key={key} className="flex-1 space-y-3">
+                <div className="flex justify-between">
+                  <Label>{t(label)}</Label>
+                  <span className="text-xs text-muted-foreground">{crop[key]}</span>
+                </div>
+                <Slider
+                  value={[crop[key]]}
+                  min={-100}
+                  max={100}
+                  step={1}
+                  disabled={crop.perspectiveCorners !== null || guidedCorners !== null}
+                  onValueChange={(v) => handlePerspectiveChange({ [key]: v[0] })}
+                  onValueCommit={() => setIsAdjusting(false)}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <Button
+                variant={guidedCorners ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={toggleGuided}
+                title={t('cropGuidedUprightHint')}
+              >
+                <Grid2x2 className="w-4 h-4 mr-1" />
+                {guidedCorners ? t('cropGuidedUprightDone') : t('cropGuidedUpright')}
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={resetPerspective}
+                title={t('cropPerspectiveReset')}
+              >
+                <RotateCcwSquare className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4 max-w-2xl mx-auto w-full">
+            <div className="space-y-2">
+              <Label>{t('cropAspect')}</Label>
+              <div className="flex items-center gap-1">
+                <Select value={crop.aspectPreset} onValueChange={handlePresetChange}>
+                  <SelectTrigger size="sm" className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASPECT_PRESETS.map(({ preset, label }) => (
+                      <SelectItem key={preset} value={preset}>
+                        {label ? t(label) : preset}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={handleSwapAspect}
+                  disabled={crop.aspectPreset === 'free'}
+                  title={t('cropAspectSwap')}
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                </Button>
+                {crop.aspectPreset === 'custom' && (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0.01}
+                      step={0.01}
+                      value={customAspect.width}
+                      onChange={(e) => handleCustomAspectChange({ width: Number(e.target.value) })}
+                      className="h-8 w-16 text-xs"
+                    />
+                    <span className="text-xs text-muted-foreground">:</span>
+                    <Input
+                      type="number"
+                      min={0.01}
+                      step={0.01}
+                      value={customAspect.height}
+                      onChange={(e) => handleCustomAspectChange({ height: Number(e.target.value) })}
+                      className="h-8 w-16 text-xs"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('cropOverlay')}</Label>
+              <Select value={overlay} onValueChange={(value: CropOverlayType) => setOverlay(value)}>
+                <SelectTrigger size="sm" className="w-36" title={t('cropOverlayShortcut')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CROP_OVERLAY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(OVERLAY_LABEL_KEYS[type])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Selection in source pixels */}
+            <div className="flex items-center gap-2 ml-auto">
+              {RECT_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-1 text-xs text-muted-foreground">
+                  {RECT_FIELD_LABELS[field]}
+                  <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    disabled={!cropState || !orientedSize}
+                    value={cropState && orientedSize
+                      ? Math.round((cropState[field] / 100) * (field === 'x' || field === 'width' ? orientedSize.width : orientedSize.height))
+                      : ''}
+                    onChange={(e) => handleRectChange(field, Number(e.target.value))}
+                    className="h-8 w-20 text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
           <div className="flex justify-center gap-4">
             <Button variant="outline" onClick={onClose}>
               <X className="w-4 h-4 mr-2" />
@@ -0,0 +1,89 @@
+'use client';
+
+import { useAdjustments, useEditorStore, ImageAdjustments } from '@/lib/store';
+import { CircleDot, Dices } from 'lucide-react';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import { TranslationKey } from '@/lib/i18n/translations';
+
+interface EffectSlider {
+  key: keyof ImageAdjustments;
+  label: TranslationKey;
+  min: number;
+  max: number;
+  defaultValue: number;
+}
+
+const VIGNETTE_SLIDERS: EffectSlider[] = [
+  { key: 'vignetteAmount', label: 'sliderVignetteAmount', min: -100, max: 100, defaultValue: 0 },
+  { key: 'vignetteMidpoint', label: 'sliderVignetteMidpoint', min: 0, max: 100, defaultValue: 50 },
+  { key: 'vignetteRoundness', label: 'sliderVignetteRoundness', min: -100, max: 100, defaultValue: 0 },
+  { key: 'vignetteFeather', label: 'sliderVignetteFeather', min: 0, max: 100, defaultValue: 50 },
+  { key: 'vignetteHighlights', label: 'sliderVignetteHighlights', min: 0, max: 100, defaultValue: 0 },
+];
+
+const GRAIN_SLIDERS: EffectSlider[] = [
+  { key: 'grainAmount', label: 'sliderGrainAmount', min: 0, max: 100, defaultValue: 0 },
+  { key: 'grainSize', label: 'sliderGrainSize', min: 0, max: 100, defaultValue: 25 },
+  { key: 'grainRoughness', label: 'sliderGrainRoughness', min: 0, max: 100, defaultValue: 50 },
+];
+
+export function EffectsPanel() {
+  const adjustments = useAdjustments();
+  const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
+  const { t } = useTranslation();
+
+  const resetEffects = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      vignetteAmount: 0,
+      vignetteMidpoint: 50,
+      vignetteRoundness: 0,
+      vignetteFeather: 50,
+      vignetteHighlights: 0,
+      grainAmount: 0,
+      grainSize: 25,
+      grainRoughness: 50,
+    });
+  };
+
+  const renderSliders = (sliders: EffectSlider[]) =>
+    sliders.map(({ key, label, min, max, defaultValue }) => (
+      <AdjustmentSlider
+        key={key}
+        label={t(label)}
+        value={adjustments[key] as number}
+        onChange={(v) => updateAdjustments({ [key]: v[0] })}
+        min={min}
+        max={max}
+        defaultValue={defaultValue}
+      />
+    ));
+
+  return (
+    <AdjustmentSection
+      value="effects"
+      icon={CircleDot}
+      title={t('adjustmentsEffects')}
+      onReset={resetEffects}
+      resetTitle={t('resetEffects')}
+    >
+      <p className="text-[11px] font-medium text-muted-foreground">{t('effectsVignette')}</p>
+      {renderSliders(VIGNETTE_SLIDERS)}
+
+      <div className="flex items-center justify-between pt-1 border-t">
+        <p className="text-[11px] font-medium text-muted-foreground">{t('effectsGrain')}</p>
+        <button
+          onClick={() => updateAdjustments({ grainSeed: Math.floor(Math.random() * 0x7fffffff) })}
+          disabled={adjustments.grainAmount === 0}
+          className="flex items-center justify-center w-5 h-5 rounded hover:bg-accent transition-colors disabled:opacity-50"
+          title={t('effectsGrainReseed')}
+        >
+          <Dices className="w-3 h-3 text-muted-foreground" />
+        </button>
+      </div>
+      {renderSliders(GRAIN_SLIDERS)}
+    </AdjustmentSection>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useEditorStore, usePreviewImage, useSpots, SpotOperation, Point } from '@/lib/store';
+import { applySpotOperations, suggestSpotSource } from '@/lib/image-processing/spot-healing';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Check, Loader2, Trash2, Bandage, Stamp } from 'lucide-react';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+
+interface HealToolProps {
+  onClose: () => void;
+}
+
+type Dimensions = {
+  width: number;
+  height: number;
+};
+
+type SpotHandle = 'source' | 'target';
+
+export function HealTool({ onClose }: HealToolProps) {
+  const previewImage = usePreviewImage();
+  const spots = useSpots();
+  const addSpot = useEditorStore((state) => state.addSpot);
+  const updateSpot = useEditorStore((state) => state.updateSpot);
+  const removeSpot = useEditorStore((state) => state.removeSpot);
+  const { t } = useTranslation();
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Offscreen canvas holding the healed preview, used to suggest heal sources
+  const healedCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ handle: SpotHandle; spot: SpotOperation } | null>(null);
+
+  const [mode, setMode] = useState<SpotOperation['mode']>('heal');
+  const [size, setSize] = useState(3); // Percent of the long edge
+  const [feather, setFeather] = useState(50);
+  const [selectedSpotId, setSelectedSpotId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SpotOperation | null>(null);
+  const [healedImage, setHealedImage] = useState<string | null>(null);
+  const [imageDimensions, setImageDimensions] = useState<Dimensions | null>(null);
+  const [viewportSize, setViewportSize] = useState<Dimensions | null>(null);
+
+  const selectedSpot = spots.find(spot => spot.id === selectedSpotId) || null;
+
+  // Re-render the healed preview whenever the spot list changes
+  useEffect(() => {
+    if (!previewImage) return;
+
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+
+      ctx.drawImage(img, 0, 0);
+      applySpotOperations(ctx, canvas.width, canvas.height, spots);
+      healedCanvasRef.current = canvas;
+      setImageDimensions({ width: canvas.width, height: canvas.height });
+      setHealedImage(canvas.toDataURL('image/jpeg', 0.95));
+    };
+    img.src = previewImage;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewImage, spots]);
+
+  const updateViewportSize = useCallback(() => {
+    if (!imageDimensions || !containerRef.current) return;
+
+    const { clientWidth, clientHeight } = containerRef.current;
+    if (clientWidth === 0 || clientHeight === 0) return;
+
+    const aspect = imageDimensions.width / imageDimensions.height;
+    let height = clientHeight;
+    let width = height * aspect;
+    if (width > clientWidth) {
+      width = clientWidth;
+      height = width / aspect;
+    }
+    setViewportSize({ width, height });
+  }, [imageDimensions]);
+
+  useEffect(() => {
+    const rafId = requestAnimationFrame(updateViewportSize);
+    window.addEventListener('resize', updateViewportSize);
+    return () => {
+      cancelAnimationFrame(rafId);
+      window.removeEventListener('resize', updateViewportSize);
+    };
+  }, [updateViewportSize]);
+
+  // Delete removes the selected spot, Escape leaves the tool
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedSpotId) {
+        e.preventDefault();
+        removeSpot(selectedSpotId);
+        setSelectedSpotId(null);
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedSpotId, removeSpot, onClose]);
+
+  const getNormalizedPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleCanvasPointerDown = (e: React.PointerEvent) => {
+    if (!imageDimensions) return;
+    const target = getNormalizedPoint(e);
+    const radius = size / 100;
+    const { width, height } = imageDimensions;
+
+    let source: Point;
+    const ctx = healedCanvasRef.current?.getContext('2d', { willReadFrequently: true });
+    if (mode === 'heal' && ctx) {
+      source = suggestSpotSource(ctx, width, height, target, radius);
+    } else {
+      // Clone starts from a fixed offset; the user drags the source where needed
+      const offset = (radius * Math.max(width, height) * 2.5) / width;
+      source = { x: target.x + (target.x + offset <= 1 ? offset : -offset), y: target.y };
+    }
+
+    const id = addSpot({ mode, source, target, radius, feather });
+    setSelectedSpotId(id);
+  };
+
+  const startDrag = (spot: SpotOperation, handle: SpotHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, spot };
+    setSelectedSpotId(spot.id);
+    setSize(Math.round(spot.radius * 200) / 2);
+    setFeather(spot.feather);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setDraft({ ...drag.spot, [drag.handle]: getNormalizedPoint(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (dragRef.current && draft) {
+      updateSpot(draft.id, { source: draft.source, target: draft.target });
+    }
+    dragRef.current = null;
+    setDraft(null);
+  };
+
+  const handleSizeCommit = (value: number[]) => {
+    if (selectedSpot) updateSpot(selectedSpot.id, { radius: value[0] / 100 });
+  };
+
+  const handleFeatherCommit = (value: number[]) => {
+    if (selectedSpot) updateSpot(selectedSpot.id, { feather: value[0] });
+  };
+
+  const isViewportReady = !!(healedImage && viewportSize);
+
+  const renderSpot = (stored: SpotOperation) => {
+    if (!viewportSize || !imageDimensions) return null;
+    const spot = draft && draft.id === stored.id ? draft : stored;
+    const isSelected = spot.id === selectedSpotId;
+    // Radius is relative to the long edge of the image, not the viewport
+    const scale = viewportSize.width / imageDimensions.width;
+    const r = spot.radius * Math.max(imageDimensions.width, imageDimensions.height) * scale;
+    const tx = spot.target.x * viewportSize.width;
+    const ty = spot.target.y * viewportSize.height;
+    const sx = spot.source.x * viewportSize.width;
+    const sy = spot.source.y * viewportSize.height;
+    const color = isSelected ? 'white' : 'rgba(255,255,255,0.6)';
+
+    return (
+      <g key={spot.id}>
+        <line x1={sx} y1={sy} x2={tx} y2={ty} stroke={color} strokeWidth={1} strokeDasharray="4 3" />
+        <circle
+          cx={sx}
+          cy={sy}
+          r={r}
+          fill="transparent"
+          stroke={color}
+          strokeWidth={isSelected ? 2 : 1}
+          strokeDasharray="4 3"
+          className="cursor-move"
+          onPointerDown={startDrag(stored, 'source')}
+        />
+        <circle
+          cx={tx}
+          cy={ty}
+          r={r}
+          fill="transparent"
+          stroke={color}
+          strokeWidth={isSelected ? 2 : 1}
+          className="cursor-move"
+          onPointerDown={startDrag(stored, 'target')}
+        />
+      </g>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-background flex flex-col">
+      <div
+        ref={containerRef}
+        className="relative flex-1 bg-black/90 flex items-center justify-center overflow-hidden p-4"
+      >
+        {!isViewportReady && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-black/70 backdrop-blur-sm px-4 py-2 rounded-lg text-white">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <p className="text-sm">{t('cropViewportCalculating')}</p>
+          </div>
+        )}
+
+        {isViewportReady && (
+          <div
+            className="relative"
+            style={{ width: viewportSize.width, height: viewportSize.height }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={healedImage}
+              alt="Retouch"
+              className="w-full h-full select-none"
+              draggable={false}
+            />
+            <svg
+              ref={svgRef}
+              className="absolute inset-0 w-full h-full cursor-crosshair"
+              style={{ touchAction: 'none' }}
+              onPointerDown={handleCanvasPointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {spots.map(renderSpot)}
+            </svg>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-background border-t p-6 flex flex-col gap-6">
+        <div className="flex items-center gap-8 max-w-2xl mx-auto w-full">
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant={mode === 'heal' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('heal')}
+            >
+              <Bandage className="w-4 h-4 mr-1.5" />
+              {t('healModeHeal')}
+            </Button>
+            <Button
+              variant={mode === 'clone' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('clone')}
+            >
+              <Stamp className="w-4 h-4 mr-1.5" />
+              {t('healModeClone')}
+            </Button>
+          </div>
+          <div className="flex-1 space-y-3">
+            <div className="flex justify-between">
+              <Label>{t('healSize')}</Label>
+              <span className="text-xs text-muted-foreground">{size}%</span>
+            </div>
+            <Slider
+              value={[size]}
+              min={1}
+              max={15}
+              step={0.5}
+              onValueChange={(v) => setSize(v[0])}
+              onValueCommit={handleSizeCommit}
+            />
+          </div>
+          <div className="flex-1 space-y-3">
+            <div className="flex justify-between">
+              <Label>{t('healFeather')}</Label>
+              <span className="text-xs text-muted-foreground">{feather}</span>
+            </div>
+            <Slider
+              value={[feather]}
+              min={0}
+              max={100}
+              step={1}
+              onValueChange={(v) => setFeather(v[0])}
+              onValueCommit={handleFeatherCommit}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground text-center">{t('healHint')}</p>
+
+        <div className="flex justify-center gap-4">
+          <Button
+            variant="outline"
+            disabled={!selectedSpot}
+            onClick={() => {
+              if (!selectedSpot) return;
+              removeSpot(selectedSpot.id);
+              setSelectedSpotId(null);
+            }}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {t('healDeleteSpot')}
+          </Button>
+          <Button onClick={onClose}>
+            <Check className="w-4 h-4 mr-2" />
+            {t('healDone')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { useAdjustments, useEditorStore, useOriginalImage, ImageAdjustments } from '@/lib/store';
+import {
+  LensInfo,
+  readLensInfo,
+  estimateLensCorrection,
+} from '@/lib/image-processing/lens-correction';
+import { Focus, Camera, Loader2 } from 'lucide-react';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import { TranslationKey } from '@/lib/i18n/translations';
+
+const LENS_SLIDERS: { key: keyof ImageAdjustments; label: TranslationKey }[] = [
+  { key: 'lensDistortion', label: 'sliderLensDistortion' },
+  { key: 'lensVignette', label: 'sliderLensVignette' },
+  { key: 'lensCaRed', label: 'sliderLensCaRed' },
+  { key: 'lensCaBlue', label: 'sliderLensCaBlue' },
+];
+
+export function LensPanel() {
+  const adjustments = useAdjustments();
+  const originalImage = useOriginalImage();
+  const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
+  const { t } = useTranslation();
+  const [lensInfo, setLensInfo] = useState<LensInfo | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const handleFromExif = async () => {
+    if (!originalImage) return;
+    setIsReading(true);
+    try {
+      const info = await readLensInfo(originalImage);
+      const estimate = info && estimateLensCorrection(info);
+      setLensInfo(info);
+      if (!estimate) {
+        alert(t('lensExifNone'));
+        return;
+      }
+      updateAdjustments(estimate);
+    } catch (error) {
+      console.error('Failed to read lens metadata', error);
+      alert(t('lensExifNone'));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const resetLens = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      lensDistortion: 0,
+      lensVignette: 0,
+      lensCaRed: 0,
+      lensCaBlue: 0,
+    });
+  };
+
+  const lensLabel = lensInfo && [
+    lensInfo.model || lensInfo.make,
+    lensInfo.focalLength && `${Math.round(lensInfo.focalLength)}mm`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <AdjustmentSection
+      value="lens"
+      icon={Focus}
+      title={t('adjustmentsLens')}
+      onReset={resetLens}
+      resetTitle={t('resetLens')}
+    >
+      {LENS_SLIDERS.map(({ key, label }) => (
+        <AdjustmentSlider
+          key={key}
+          label={t(label)}
+          value={adjustments[key] as number}
+          onChange={(v) => updateAdjustments({ [key]: v[0] })}
+          min={-100}
+          max={100}
+        />
+      ))}
+
+      {/* Estimate distortion and vignetting from the focal length */}
+      <button
+        onClick={handleFromExif}
+        disabled={!originalImage || isReading}
+        className="flex w-full items-center justify-center gap-1 h-6 rounded border text-[11px] text-muted-foreground hover:text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+        title={t('lensFromExifHint')}
+      >
+        {isReading
+          ? <Loader2 className="w-3 h-3 animate-spin" />
+          : <Camera className="w-3 h-3" />}
+        {t('lensFromExif')}
+      </button>
+      {lensLabel && (
+        <p className="text-[11px] text-muted-foreground truncate" title={lensLabel}>
+          {lensLabel}
+        </p>
+      )}
+    </AdjustmentSection>
+  );
+}
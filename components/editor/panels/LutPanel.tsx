@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useAdjustments, useEditorStore } from '@/lib/store';
+import { getAllLuts, storeLut, deleteLut, StoredLut } from '@/lib/indexeddb-utils';
+import { parseCubeLut, serializeCubeLut, CUBE_EXPORT_SIZES } from '@/lib/image-processing/cube-lut';
+import { bakeColorLut, evictCachedLut } from '@/lib/image-processing/canvas-utils';
+import { downloadBlob } from '@/lib/download-utils';
+import { Film, Upload, Download, Trash2, Loader2 } from 'lucide-react';
+import { cn, generateId } from '@/lib/utils';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+
+export function LutPanel() {
+  const adjustments = useAdjustments();
+  const updateAdjustments = useEditorStore((state) => state.updateAdjustments);
+  const detachLut = useEditorStore((state) => state.detachLut);
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [luts, setLuts] = useState<StoredLut[]>([]);
+  const [exportSize, setExportSize] = useState(33);
+  const [isExportingLut, setIsExportingLut] = useState(false);
+
+  // The LUT library is shared by all images, so it lives only in IndexedDB
+  useEffect(() => {
+    let active = true;
+    getAllLuts().then((stored) => {
+      if (active) setLuts(stored);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    let lastImportedId: string | null = null;
+    for (const file of Array.from(files)) {
+      try {
+        const parsed = parseCubeLut(await file.text());
+        const lut: StoredLut = {
+          ...parsed,
+          id: generateId(),
+          name: parsed.title || file.name.replace(/\.cube$/i, ''),
+          createdAt: Date.now(),
+        };
+        await storeLut(lut);
+        setLuts(prev => [...prev, lut]);
+        lastImportedId = lut.id;
+      } catch (error) {
+        console.error(`Failed to import LUT ${file.name}`, error);
+        alert(t('lutImportError', {
+          name: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        }));
+      }
+    }
+
+    if (lastImportedId) {
+      updateAdjustments({ lutId: lastImportedId });
+    }
+  };
+
+  const handleDelete = async (lutId: string) => {
+    // Deleting removes the LUT from every image, so ask when others use it
+    const { images, currentImageId } = useEditorStore.getState();
+    const otherUses = images.filter(img => img.id !== currentImageId && img.adjustments.lutId === lutId).length;
+    if (otherUses > 0 && !confirm(t('lutDeleteInUse', { count: otherUses }))) return;
+
+    await deleteLut(lutId);
+    evictCachedLut(lutId);
+    setLuts(prev => prev.filter(lut => lut.id !== lutId));
+    detachLut(lutId);
+  };
+
+  const handleExport = async () => {
+    setIsExportingLut(true);
+    try {
+      const lut = await bakeColorLut(adjustments, exportSize, 'Luma Forge Look');
+      const blob = new Blob([serializeCubeLut(lut)], { type: 'text/plain' });
+      await downloadBlob(blob, {
+        filename: `luma-look-${exportSize}.cube`,
+        description: 'Cube LUT',
+        accept: { 'text/plain': ['.cube'] },
+      });
+    } catch (error) {
+      console.error('LUT export failed', error);
+      alert(t('lutExportError'));
+    } finally {
+      setIsExportingLut(false);
+    }
+  };
+
+  const resetLut = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    updateAdjustments({
+      lutId: null,
+      lutIntensity: 100,
+    });
+  };
+
+  const activeLut = luts.find(lut => lut.id === adjustments.lutId) || null;
+
+  return (
+    <AdjustmentSection
+      value="lut"
+      icon={Film}
+      title={t('adjustmentsLut')}
+      onReset={resetLut}
+      resetTitle={t('resetLut')}
+    >
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex w-full items-center justify-center gap-1 h-6 rounded border text-[11px] text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+      >
+        <Upload className="w-3 h-3" />
+        {t('lutImport')}
+      </button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept=".cube"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleImport(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      {/* LUT Library */}
+      {luts.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground py-1">{t('lutEmpty')}</p>
+      ) : (
+        <div className="space-y-1">
+          {luts.map((lut) => {
+            const isActive = lut.id === adjustments.lutId;
+            return (
+              <div
+                key={lut.id}
+                onClick={() => updateAdjustments({ lutId: isActive ? null : lut.id })}
+                className={cn(
+                  "flex items-center justify-between h-7 px-2 rounded cursor-pointer text-xs transition-colors",
+                  isActive ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50"
+                )}
+              >
+                <span className="truncate" title={lut.name}>{lut.name}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-[10px] text-muted-foreground">
+                    {lut.type} · {lut.size}
+                  </span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(lut.id);
+                    }}
+                    className="flex items-center justify-center w-5 h-5 rounded hover:bg-accent transition-colors"
+                    title={t('lutDelete')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {activeLut && (
+        <AdjustmentSlider
+          label={t('lutIntensity')}
+          value={adjustments.lutIntensity}
+          onChange={(v) => updateAdjustments({ lutIntensity: v[0] })}
+          min={0}
+          max={100}
+          defaultValue={100}
+        />
+      )}
+
+      {/* Bake the current color grade into a .cube */}
+      <div className="flex items-center gap-1.5 pt-1 border-t">
+        {CUBE_EXPORT_SIZES.map((size) => (
+          <button
+            key={size}
+            onClick={() => setExportSize(size)}
+            className={cn(
+              "flex items-center justify-center h-6 px-2 rounded border text-[11px] transition-colors",
+              exportSize === size ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50"
+            )}
+            title={t('lutExportSize', { size })}
+          >
+            {size}
+          </button>
+        ))}
+        <button
+          onClick={handleExport}
+          disabled={isExportingLut}
+          className="flex flex-1 items-center justify-center gap-1 h-6 rounded border text-[11px] text-muted-foreground hover:text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          {isExportingLut
+            ? <Loader2 className="w-3 h-3 animate-spin" />
+            : <Download className="w-3 h-3" />}
+          {t('lutExport')}
+        </button>
+      </div>
+    </AdjustmentSection>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import {
+  useEditorStore,
+  useMasks,
+  LocalMask,
+  MaskAdjustmentKey,
+  MaskType,
+  MASK_ADJUSTMENT_KEYS,
+} from '@/lib/store';
+import { Layers, Blend, Circle, Brush, Trash2, Contrast, Eraser } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AdjustmentSection } from './AdjustmentSection';
+import { AdjustmentSlider } from './AdjustmentSlider';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+import type { TranslationKey } from '@/lib/i18n/translations';
+
+const MASK_ICONS = {
+  linear: Blend,
+  radial: Circle,
+  brush: Brush,
+};
+
+const MASK_LABEL_KEYS: Record<MaskType, TranslationKey> = {
+  linear: 'maskLinear',
+  radial: 'maskRadial',
+  brush: 'maskBrush',
+};
+
+const MASK_SLIDER_LABEL_KEYS: Record<MaskAdjustmentKey, TranslationKey> = {
+  exposure: 'sliderExposure',
+  contrast: 'sliderContrast',
+  highlights: 'sliderHighlights',
+  shadows: 'sliderShadows',
+  temperature: 'sliderTemperature',
+  tint: 'sliderTint',
+  saturation: 'sliderSaturation',
+};
+
+export function MasksPanel() {
+  const masks = useMasks();
+  const activeMaskId = useEditorStore((state) => state.activeMaskId);
+  const brushSettings = useEditorStore((state) => state.brushSettings);
+  const addMask = useEditorStore((state) => state.addMask);
+  const updateMask = useEditorStore((state) => state.updateMask);
+  const removeMask = useEditorStore((state) => state.removeMask);
+  const clearMasks = useEditorStore((state) => state.clearMasks);
+  const setActiveMask = useEditorStore((state) => state.setActiveMask);
+  const setBrushSettings = useEditorStore((state) => state.setBrushSettings);
+  const { t } = useTranslation();
+
+  const activeMask = masks.find(mask => mask.id === activeMaskId) || null;
+
+  const resetMasks = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent accordion toggle
+    clearMasks();
+  };
+
+  const handleMaskAdjustmentChange = (mask: LocalMask, key: MaskAdjustmentKey) => (value: number[]) => {
+    updateMask(mask.id, {
+      adjustments: {
+        ...mask.adjustments,
+        [key]: value[0],
+      },
+    });
+  };
+
+  const getMaskLabel = (mask: LocalMask) => {
+    const sameType = masks.filter(m => m.type === mask.type);
+    return `${t(MASK_LABEL_KEYS[mask.type])} ${sameType.indexOf(mask) + 1}`;
+  };
+
+  return (
+    <AdjustmentSection
+      value="masks"
+      icon={Layers}
+      title={t('adjustmentsMasks')}
+      onReset={resetMasks}
+      resetTitle={t('resetMasks')}
+    >
+      {/* Add Mask Buttons */}
+      <div className="flex items-center gap-1.5">
+        {(Object.keys(MASK_ICONS) as MaskType[]).map((type) => {
+          const Icon = MASK_ICONS[type];
+          return (
+            <button
+              key={type}
+              onClick={() => addMask(type)}
+              className="flex flex-1 items-center justify-center gap-1 h-6 rounded border text-[11px] text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+              title={t('maskAdd', { type: t(MASK_LABEL_KEYS[type]) })}
+            >
+              <Icon className="w-3 h-3" />
+              {t(MASK_LABEL_KEYS[type])}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Mask List */}
+      {masks.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground py-1">{t('masksEmpty')}</p>
+      ) : (
+        <div className="space-y-1">
+          {masks.map((mask) => {
+            const Icon = MASK_ICONS[mask.type];
+            const isActive = mask.id === activeMaskId;
+            return (
+              <div
+                key={mask.id}
+                onClick={() => setActiveMask(isActive ? null : mask.id)}
+                className={cn(
+                  "flex items-center justify-between h-7 px-2 rounded cursor-pointer text-xs transition-colors",
+                  isActive ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50"
+                )}
+              >
+                <div className="flex items-center gap-1.5">
+                  <Icon className="w-3 h-3" />
+                  <span>{getMaskLabel(mask)}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateMask(mask.id, { invert: !mask.invert });
+                    }}
+                    className={cn(
+                      "flex items-center justify-center w-5 h-5 rounded hover:bg-accent transition-colors",
+                      mask.invert && "text-primary"
+                    )}
+                    title={t('maskInvert')}
+                  >
+                    <Contrast className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeMask(mask.id);
+                    }}
+                    className="flex items-center justify-center w-5 h-5 rounded hover:bg-accent transition-colors"
+                    title={t('maskDelete')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Active Mask Settings */}
+      {activeMask && (
+        <div className="space-y-2 pt-1 border-t">
+          {activeMask.type === 'radial' && (
+            <>
+              <AdjustmentSlider
+                key={`${activeMask.id}-feather`}
+                label={t('maskFeather')}
+                value={activeMask.feather}
+                onChange={(v) => updateMask(activeMask.id, { feather: v[0] })}
+                min={0}
+                max={100}
+                defaultValue={50}
+              />
+              <AdjustmentSlider
+                key={`${activeMask.id}-rotation`}
+                label={t('maskRotation')}
+                value={activeMask.rotation}
+                onChange={(v) => updateMask(activeMask.id, { rotation: v[0] })}
+                min={-90}
+                max={90}
+              />
+            </>
+          )}
+
+          {activeMask.type === 'brush' && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={() => setBrushSettings({ erase: false })}
+                  className={cn(
+                    "flex flex-1 items-center justify-center gap-1 h-6 rounded border text-[11px] transition-colors",
+                    !brushSettings.erase ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50"
+                  )}
+                >
+                  <Brush className="w-3 h-3" />
+                  {t('maskBrushPaint')}
+                </button>
+                <button
+                  onClick={() => setBrushSettings({ erase: true })}
+                  className={cn(
+                    "flex flex-1 items-center justify-center gap-1 h-6 rounded border text-[11px] transition-colors",
+                    brushSettings.erase ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent/50"
+                  )}
+                >
+                  <Eraser className="w-3 h-3" />
+                  {t('maskBrushErase')}
+                </button>
+              </div>
+              <AdjustmentSlider
+                label={t('maskBrushSize')}
+                value={Math.round(brushSettings.size * 100)}
+                onChange={(v) => setBrushSettings({ size: v[0] / 100 })}
+                min={1}
+                max={25}
+                defaultValue={5}
+              />
+              <AdjustmentSlider
+                label={t('maskFeather')}
+                value={brushSettings.feather}
+                onChange={(v) => setBrushSettings({ feather: v[0] })}
+                min={0}
+                max={100}
+                defaultValue={50}
+              />
+              <AdjustmentSlider
+                label={t('maskBrushFlow')}
+                value={brushSettings.flow}
+                onChange={(v) => setBrushSettings({ flow: v[0] })}
+                min={1}
+                max={100}
+                defaultValue={100}
+              />
+            </>
+          )}
+
+          {MASK_ADJUSTMENT_KEYS.map((key) => (
+            <AdjustmentSlider
+              key={`${activeMask.id}-${key}`}
+              label={t(MASK_SLIDER_LABEL_KEYS[key])}
+              value={activeMask.adjustments[key]}
+              onChange={handleMaskAdjustmentChange(activeMask, key)}
+              min={-100}
+              max={100}
+              colorGradient={key === 'temperature' || key === 'tint' ? key : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </AdjustmentSection>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+export interface WheelColor {
+  hue: number; // 0-360, clockwise from the top
+  saturation: number; // 0-100, distance from the center
+}
+
+interface ColorWheelProps {
+  value: WheelColor;
+  onChange: (value: WheelColor) => void;
+  title?: string;
+}
+
+/**
+ * Hue/saturation wheel with a draggable puck. Drags are committed on release
+ * so they are one history step; double-click returns the puck to the center.
+ */
+export function ColorWheel({ value, onChange, title }: ColorWheelProps) {
+  // Color being dragged
+  const [draft, setDraft] = useState<WheelColor | null>(null);
+  const draggingRef = useRef(false);
+  const current = draft ?? value;
+
+  const getColor = (e: React.PointerEvent<HTMLDivElement>): WheelColor => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dx = (e.clientX - rect.left) / rect.width - 0.5;
+    const dy = (e.clientY - rect.top) / rect.height - 0.5;
+    const hue = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    return {
+      hue: Math.round((hue + 360) % 360),
+      saturation: Math.round(Math.min(1, Math.sqrt(dx * dx + dy * dy) * 2) * 100),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = true;
+    setDraft(getColor(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draggingRef.current) return;
+    setDraft(getColor(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!draggingRef.current) return;
+    draggingRef.current = false;
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  const angle = (current.hue * Math.PI) / 180;
+  const radius = (current.saturation / 100) * 50;
+
+  return (
+    <div
+      className="relative aspect-square w-full rounded-full border cursor-crosshair touch-none select-none"
+      style={{
+        background:
+          'radial-gradient(circle closest-side, rgb(128, 128, 128), transparent), '
+          + 'conic-gradient(hsl(0, 70%, 55%), hsl(60, 70%, 55%), hsl(120, 70%, 55%), '
+          + 'hsl(180, 70%, 55%), hsl(240, 70%, 55%), hsl(300, 70%, 55%), hsl(360, 70%, 55%))',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onChange({ hue: current.hue, saturation: 0 })}
+      title={title}
+    >
+      <div
+        className="absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none"
+        style={{
+          left: `${50 + Math.sin(angle) * radius}%`,
+          top: `${50 - Math.cos(angle) * radius}%`,
+          backgroundColor: `hsl(${current.hue}, ${current.saturation}%, 50%)`,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 'use client';
 
 import { useRef, useState, useEffect, useMemo } from 'react';
-import { Point, usePreviewImage } from '@/lib/store';
+import { Point, CurveChannel, usePreviewImage } from '@/lib/store';
 import { useEditorStore } from '@/lib/store';
+import { createCurveEvaluator } from '@/lib/image-processing/curve-spline';
+import { useChannelHistogram } from '../hooks/useChannelHistogram';
 
 interface CurveEditorProps {
   points: Point[];
   onChange: (points: Point[]) => void;
   color: string;
-  channel: 'master' | 'red' | 'green' | 'blue';
+  channel: CurveChannel;
 }
 
 export function CurveEditor({ points, onChange, color, channel }: CurveEditorProps) {
@@ -16,7 +18,6 @@ export function CurveEditor({ points, onChange, color, channel }: CurveEditorPro
   const [activePointIndex, setActivePointIndex] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const previewImage = usePreviewImage();
-  const [histogram, setHistogram] = useState<number[]>([]);
   // Track the original point being dragged to prevent drift after re-sorting
   const dragStartPointRef = useRef<Point | null>(null);
   // Local state for immediate visual feedback during dragging
@@ -26,59 +27,7 @@ export function CurveEditor({ points, onChange, color, channel }: CurveEditorPro
   // Mouse position for auxiliary line
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
 
-  // Calculate histogram from preview image
-  useEffect(() => {
-    if (!previewImage) {
-      // Use setTimeout to avoid synchronous setState warning
-      const timer = setTimeout(() => setHistogram([]), 0);
-      return () => clearTimeout(timer);
-    }
-
-    let cancelled = false;
-    const img = new Image();
-    img.onload = () => {
-      if (cancelled) return;
-
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      // Calculate histogram for the selected channel
-      const hist = new Array(256).fill(0);
-      for (let i = 0; i < data.length; i += 4) {
-        let value: number;
-        if (channel === 'master') {
-          // Luminance: 0.299*R + 0.587*G + 0.114*B
-          value = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-        } else if (channel === 'red') {
-          value = data[i];
-        } else if (channel === 'green') {
-          value = data[i + 1];
-        } else {
-          value = data[i + 2];
-        }
-        hist[value]++;
-      }
-
-      // Normalize histogram to 0-1 range
-      const max = Math.max(...hist);
-      const normalized = hist.map((v) => (max > 0 ? v / max : 0));
-      if (!cancelled) {
-        setHistogram(normalized);
-      }
-    };
-    img.src = previewImage;
-
-    return () => {
-      cancelled = true;
-    };
-  }, [previewImage, channel]);
+  const histogram = useChannelHistogram(previewImage, channel);
 
   // Sort points by x to ensure function validity
   // Use local points during dragging for immediate feedback, otherwise use props
@@ -87,69 +36,23 @@ export function CurveEditor({ points, onChange, color, channel }: CurveEditorPro
     return [...pointsToUse].sort((a, b) => a.x - b.x);
   }, [points, localPoints]);
 
-  // Generate smooth cubic Bezier curve path using Catmull-Rom spline conversion
+  // Shared spline evaluator - identical to the one the worker uses for the LUTs
+  const evaluateCurve = useMemo(() => createCurveEvaluator(sortedPoints), [sortedPoints]);
+
+  // Sample the curve at every LUT entry so the drawn path matches the applied tones
   const pathData = useMemo(() => {
     if (sortedPoints.length < 2) return '';
 
-    // Convert points to SVG coordinates
-    const svgPoints = sortedPoints.map(p => ({
-      x: p.x * 100,
-      y: (1 - p.y) * 100
-    }));
-
-    if (svgPoints.length === 2) {
-      // For 2 points, use a simple line
-      return `M ${svgPoints[0].x} ${svgPoints[0].y} L ${svgPoints[1].x} ${svgPoints[1].y}`;
-    }
-
-    // Convert Catmull-Rom spline to cubic Bezier curves
-    // This ensures C1 continuity (smooth first derivative) at all points
-
-    // Helper to get point with boundary handling
-    const getPoint = (index: number) => {
-      if (index < 0) {
-        // Extrapolate backwards
-        const p0 = svgPoints[0];
-        const p1 = svgPoints[1];
-        return {
-          x: p0.x - (p1.x - p0.x),
-          y: p0.y - (p1.y - p0.y)
-        };
-      }
-      if (index >= svgPoints.length) {
-        // Extrapolate forwards
-        const pn1 = svgPoints[svgPoints.length - 2];
-        const pn = svgPoints[svgPoints.length - 1];
-        return {
-          x: pn.x + (pn.x - pn1.x),
-          y: pn.y + (pn.y - pn1.y)
-        };
-      }
-      return svgPoints[index];
-    };
-
-    // Build path using cubic Bezier curves
-    let path = `M ${svgPoints[0].x} ${svgPoints[0].y}`;
-
-    for (let i = 0; i < svgPoints.length - 1; i++) {
-      const p0 = getPoint(i - 1);
-      const p1 = svgPoints[i];      // Start point
-      const p2 = svgPoints[i + 1];  // End point
-      const p3 = getPoint(i + 2);
-
-      // Convert Catmull-Rom to Bezier control points
-      // Formula: CP1 = P1 + (P2 - P0) / 6, CP2 = P2 - (P3 - P1) / 6
-      const cp1x = p1.x + (p2.x - p0.x) / 6;
-      const cp1y = p1.y + (p2.y - p0.y) / 6;
-      const cp2x = p2.x - (p3.x - p1.x) / 6;
-      const cp2y = p2.y - (p3.y - p1.y) / 6;
-
-      // Use cubic Bezier curve
-      path += ` C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${p2.x} ${p2.y}`;
+    const SAMPLES = 255;
+    let path = '';
+    for (let i = 0; i <= SAMPLES; i++) {
+      const x = i / SAMPLES;
+      const y = evaluateCurve(x);
+      path += `${i === 0 ? 'M' : ' L'} ${x * 100} ${(1 - y) * 100}`;
     }
 
     return path;
-  }, [sortedPoints]);
+  }, [sortedPoints, evaluateCurve]);
 
   const getCoordinates = (e: React.MouseEvent | MouseEvent) => {
     if (!svgRef.current) return { x: 0, y: 0 };
@@ -177,106 +80,10 @@ export function CurveEditor({ points, onChange, color, channel }: CurveEditorPro
     return closestIndex;
   };
 
-  // Calculate Y value on the smooth curve for a given X using cubic Bezier interpolation
+  // Calculate Y value on the smooth curve for a given X
   const getYOnCurve = (x: number): number => {
     if (sortedPoints.length < 2) return 0.5;
-
-    // Find the segment that contains this X value
-    for (let i = 0; i < sortedPoints.length - 1; i++) {
-      const p1 = sortedPoints[i];
-      const p2 = sortedPoints[i + 1];
-
-      if (x >= p1.x && x <= p2.x) {
-        // Get neighboring points for Catmull-Rom control points (same as path generation)
-        const getPoint = (index: number) => {
-          if (index < 0) {
-            const p0 = sortedPoints[0];
-            const p1 = sortedPoints[1];
-            return { x: p0.x - (p1.x - p0.x), y: p0.y - (p1.y - p0.y) };
-          }
-          if (index >= sortedPoints.length) {
-            const pn1 = sortedPoints[sortedPoints.length - 2];
-            const pn = sortedPoints[sortedPoints.length - 1];
-            return { x: pn.x + (pn.x - pn1.x), y: pn.y + (pn.y - pn1.y) };
-          }
-          return sortedPoints[index];
-        };
-
-        const p0 = getPoint(i - 1);
-        const p3 = getPoint(i + 2);
-
-        // Calculate control points using Catmull-Rom to Bezier conversion
-        const cp1x = p1.x + (p2.x - p0.x) / 6;
-        const cp1y = p1.y + (p2.y - p0.y) / 6;
-        const cp2x = p2.x - (p3.x - p1.x) / 6;
-        const cp2y = p2.y - (p3.y - p1.y) / 6;
-
-        // Solve for t using Newton-Raphson method
-        let t = (x - p1.x) / (p2.x - p1.x); // Initial guess: linear interpolation
-        t = Math.max(0, Math.min(1, t));
-
-        let iterations = 0;
-        const maxIterations = 30;
-        const tolerance = 0.00001;
-
-        while (iterations < maxIterations) {
-          // Calculate x position at t
-          const mt = 1 - t;
-          const mt2 = mt * mt;
-          const mt3 = mt2 * mt;
-          const t2 = t * t;
-          const t3 = t2 * t;
-
-          const bx = mt3 * p1.x +
-            3 * mt2 * t * cp1x +
-            3 * mt * t2 * cp2x +
-            t3 * p2.x;
-
-          const error = bx - x;
-          if (Math.abs(error) < tolerance) break;
-
-          // Calculate derivative (for Newton-Raphson)
-          const derivative = 3 * mt2 * (cp1x - p1.x) +
-            6 * mt * t * (cp2x - cp1x) +
-            3 * t2 * (p2.x - cp2x);
-
-          if (Math.abs(derivative) > 0.00001) {
-            t = t - error / derivative;
-            t = Math.max(0, Math.min(1, t)); // Clamp to [0, 1]
-          } else {
-            // Fallback to linear if derivative is too small
-            t = (x - p1.x) / (p2.x - p1.x);
-            break;
-          }
-
-          iterations++;
-        }
-
-        // Calculate y at the found t
-        const mt = 1 - t;
-        const mt2 = mt * mt;
-        const mt3 = mt2 * mt;
-        const t2 = t * t;
-        const t3 = t2 * t;
-
-        const y = mt3 * p1.y +
-          3 * mt2 * t * cp1y +
-          3 * mt * t2 * cp2y +
-          t3 * p2.y;
-
-        return y;
-      }
-    }
-
-    // If outside bounds, extrapolate
-    if (x < sortedPoints[0].x) {
-      return sortedPoints[0].y;
-    }
-    if (x > sortedPoints[sortedPoints.length - 1].x) {
-      return sortedPoints[sortedPoints.length - 1].y;
-    }
-
-    return 0.5;
+    return evaluateCurve(x);
   };
 
   const handlePointMouseDown = (index: number, e: React.MouseEvent) => {
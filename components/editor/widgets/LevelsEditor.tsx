@@ -0,0 +1,215 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CurveChannel, LevelsAdjustment, usePreviewImage } from '@/lib/store';
+import {
+  gammaToMidpoint,
+  midpointToGamma,
+  MIN_LEVELS_GAMMA,
+  MAX_LEVELS_GAMMA,
+} from '@/lib/image-processing/levels';
+import { Input } from '@/components/ui/input';
+import { useChannelHistogram } from '../hooks/useChannelHistogram';
+import { useTranslation } from '@/lib/i18n/useTranslation';
+
+interface LevelsEditorProps {
+  levels: LevelsAdjustment;
+  onChange: (levels: LevelsAdjustment) => void;
+  color: string;
+  channel: CurveChannel;
+}
+
+type LevelsHandle = 'inputBlack' | 'gamma' | 'inputWhite' | 'outputBlack' | 'outputWhite';
+
+// Smallest gap between the input black and white points
+const MIN_INPUT_RANGE = 2;
+
+const clampLevel = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+/**
+ * Classic levels control: the channel histogram with input black, gamma and
+ * white handles underneath, then the output range.
+ */
+export function LevelsEditor({ levels, onChange, color, channel }: LevelsEditorProps) {
+  const previewImage = usePreviewImage();
+  const histogram = useChannelHistogram(previewImage, channel);
+  const { t } = useTranslation();
+  // Levels being dragged; committed on release so a drag is one history step
+  const [draft, setDraft] = useState<LevelsAdjustment | null>(null);
+  const dragRef = useRef<LevelsHandle | null>(null);
+  const current = draft ?? levels;
+
+  const inputRange = current.inputWhite - current.inputBlack;
+  const gammaPosition = current.inputBlack + inputRange * gammaToMidpoint(current.gamma);
+
+  // Apply a handle moved to a 0-255 position, keeping the input handles ordered
+  const moveHandle = (source: LevelsAdjustment, handle: LevelsHandle, value: number): LevelsAdjustment => {
+    switch (handle) {
+      case 'inputBlack':
+        return { ...source, inputBlack: clampLevel(Math.min(value, source.inputWhite - MIN_INPUT_RANGE)) };
+      case 'inputWhite':
+        return { ...source, inputWhite: clampLevel(Math.max(value, source.inputBlack + MIN_INPUT_RANGE)) };
+      case 'gamma':
+        return {
+          ...source,
+          gamma: midpointToGamma((value - source.inputBlack) / (source.inputWhite - source.inputBlack)),
+        };
+      default:
+        return { ...source, [handle]: clampLevel(value) };
+    }
+  };
+
+  const getLevel = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * 255;
+  };
+
+  const handlePointerDown = (handle: LevelsHandle) => (e: React.PointerEvent<SVGElement>) => {
+    e.stopPropagation();
+    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+    dragRef.current = handle;
+    setDraft(levels);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const handle = dragRef.current;
+    if (!handle || !draft) return;
+    setDraft(moveHandle(draft, handle, getLevel(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  const handleInput = (handle: LevelsHandle) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (!Number.isFinite(value)) return;
+    if (handle === 'gamma') {
+      onChange({ ...levels, gamma: Math.min(MAX_LEVELS_GAMMA, Math.max(MIN_LEVELS_GAMMA, value)) });
+    } else {
+      onChange(moveHandle(levels, handle, value));
+    }
+  };
+
+  // Triangle pointing up at a 0-255 position of a 0-255 wide track
+  const renderHandle = (handle: LevelsHandle, position: number, fill: string) => (
+    <path
+      d={`M ${position} 0 L ${position + 6} 10 L ${position - 6} 10 Z`}
+      fill={fill}
+      stroke="currentColor"
+      strokeWidth={1}
+      vectorEffect="non-scaling-stroke"
+      className="cursor-ew-resize"
+      onPointerDown={handlePointerDown(handle)}
+    />
+  );
+
+  const trackProps = {
+    className: 'block w-full h-3 overflow-visible touch-none text-muted-foreground',
+    viewBox: '0 0 255 10',
+    preserveAspectRatio: 'none',
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  };
+
+  return (
+    <div className="space-y-1.5 select-none">
+      {/* Histogram, dimmed outside the input range */}
+      <div className="relative w-full h-20 bg-muted/30 rounded-md border overflow-hidden">
+        {histogram.length > 0 && (
+          <svg className="absolute inset-0 w-full h-full opacity-40" viewBox="0 0 256 100" preserveAspectRatio="none">
+            {histogram.map((value, index) => (
+              <rect key={index} x={index} y={100 - value * 100} width={1} height={value * 100} fill={color} />
+            ))}
+          </svg>
+        )}
+        <div
+          className="absolute inset-y-0 left-0 bg-background/60 pointer-events-none"
+          style={{ width: `${(current.inputBlack / 255) * 100}%` }}
+        />
+        <div
+          className="absolute inset-y-0 right-0 bg-background/60 pointer-events-none"
+          style={{ width: `${((255 - current.inputWhite) / 255) * 100}%` }}
+        />
+      </div>
+
+      {/* Input handles */}
+      <svg {...trackProps}>
+        {renderHandle('inputBlack', current.inputBlack, 'black')}
+        {renderHandle('gamma', gammaPosition, 'gray')}
+        {renderHandle('inputWhite', current.inputWhite, 'white')}
+      </svg>
+      <div className="flex items-center justify-between gap-1">
+        <Input
+          type="number"
+          min={0}
+          max={253}
+          step={1}
+          value={current.inputBlack}
+          onChange={handleInput('inputBlack')}
+          className="h-6 w-14 px-1 text-[11px]"
+          title={t('levelsInputBlack')}
+        />
+        <Input
+          type="number"
+          min={MIN_LEVELS_GAMMA}
+          max={MAX_LEVELS_GAMMA}
+          step={0.01}
+          value={current.gamma}
+          onChange={handleInput('gamma')}
+          className="h-6 w-14 px-1 text-[11px]"
+          title={t('levelsGamma')}
+        />
+        <Input
+          type="number"
+          min={2}
+          max={255}
+          step={1}
+          value={current.inputWhite}
+          onChange={handleInput('inputWhite')}
+          className="h-6 w-14 px-1 text-[11px]"
+          title={t('levelsInputWhite')}
+        />
+      </div>
+
+      {/* Output range */}
+      <div className="pt-1 space-y-1">
+        <span className="text-[11px] text-muted-foreground">{t('levelsOutput')}</span>
+        <div
+          className="w-full h-2 rounded-sm border"
+          style={{ background: `linear-gradient(to right, black, ${channel === 'master' ? 'white' : color})` }}
+        />
+        <svg {...trackProps}>
+          {renderHandle('outputBlack', current.outputBlack, 'black')}
+          {renderHandle('outputWhite', current.outputWhite, 'white')}
+        </svg>
+        <div className="flex items-center justify-between gap-1">
+          <Input
+            type="number"
+            min={0}
+            max={255}
+            step={1}
+            value={current.outputBlack}
+            onChange={handleInput('outputBlack')}
+            className="h-6 w-14 px-1 text-[11px]"
+            title={t('levelsOutputBlack')}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={255}
+            step={1}
+            value={current.outputWhite}
+            onChange={handleInput('outputWhite')}
+            className="h-6 w-14 px-1 text-[11px]"
+            title={t('levelsOutputWhite')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { useEditorStore } from '@/lib/store';
+import { useEditorStore, getImageFileInfo } from '@/lib/store';
 import { Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { readImageFiles } from '@/lib/image-processing/image-import';
 import { useTranslation } from '@/lib/i18n/useTranslation';
 
 export function ImageUpload() {
@@ -24,32 +25,23 @@ export function ImageUpload() {
     const isFirstImage = images.length === 0;
 
     // Load all files first, then update the store in one batch
-    const loadFile = (file: File) =>
-      new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            resolve(e.target.result as string);
-          } else {
-            reject(new Error('Failed to read file'));
-          }
-        };
-        reader.onerror = () => reject(new Error('Failed to read file'));
-        reader.readAsDataURL(file);
-      });
+    const { images: loaded, failed } = await readImageFiles(imageFiles);
+    if (failed.length > 0) {
+      alert(t('importError', { names: failed.map((file) => file.name).join(', ') }));
+    }
+    if (loaded.length === 0) return;
 
-    const loadedImages = await Promise.all(
-      imageFiles.map((file) => loadFile(file)),
-    );
+    const loadedImages = loaded.map(({ src }) => src);
+    const fileInfos = loaded.map(({ file }) => getImageFileInfo(file));
 
     if (isFirstImage) {
       const [first, ...rest] = loadedImages;
-      setImage(first);
+      setImage(first, fileInfos[0]);
       if (rest.length > 0) {
-        addImages(rest);
+        addImages(rest, fileInfos.slice(1));
       }
     } else {
-      addImages(loadedImages);
+      addImages(loadedImages, fileInfos);
     }
   };
 
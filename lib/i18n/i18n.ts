@@ -63,6 +63,7 @@ if (typeof window !== 'undefined') {
         fallbackLng: 'en',
         defaultNS,
         initImmediate: true, // Initialize immediately to prevent async delay
+        interpolation: { escapeValue: false }, // React already escapes rendered text
       })
       .then(() => {
         // Double-check language is correct after init
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { migrateKernelAdjustments } from './blur';
+
+describe('migrateKernelAdjustments', () => {
+  it('leaves settings that have sharpenRadius alone', () => {
+    const current = { blur: 40, sharpness: 80, sharpenRadius: 25 };
+    expect(migrateKernelAdjustments(current)).toBe(current);
+  });
+
+  it('treats sharpenRadius as present even when it is undefined', () => {
+    const current = { blur: 40, sharpness: 80, sharpenRadius: undefined };
+    expect(migrateKernelAdjustments(current)).toBe(current);
+  });
+
+  it('turns any old blur into the small Gaussian it matched', () => {
+    expect(migrateKernelAdjustments({ blur: 1 }).blur).toBe(3);
+    expect(migrateKernelAdjustments({ blur: 100 }).blur).toBe(3);
+    expect(migrateKernelAdjustments({ blur: 0 }).blur).toBe(0);
+    expect(migrateKernelAdjustments({}).blur).toBe(0);
+  });
+
+  it('scales old sharpness by 1.75, capped at 100', () => {
+    expect(migrateKernelAdjustments({ sharpness: 20 }).sharpness).toBe(35);
+    expect(migrateKernelAdjustments({ sharpness: 30 }).sharpness).toBe(53);
+    expect(migrateKernelAdjustments({ sharpness: 57 }).sharpness).toBe(100);
+    expect(migrateKernelAdjustments({ sharpness: 100 }).sharpness).toBe(100);
+    expect(migrateKernelAdjustments({}).sharpness).toBe(0);
+  });
+
+  it('keeps the other fields', () => {
+    expect(migrateKernelAdjustments({ exposure: 12, sharpness: 10 })).toEqual({ exposure: 12, blur: 0, sharpness: 18 });
+  });
+
+  it('converts only once', () => {
+    // Settings normalized with the defaults gain sharpenRadius, so saving
+    // and loading again doesn't scale them a second time
+    const migrated = { ...migrateKernelAdjustments({ blur: 50, sharpness: 40 }), sharpenRadius: 25 };
+    expect(migrateKernelAdjustments(migrated)).toEqual({ blur: 3, sharpness: 70, sharpenRadius: 25 });
+  });
+});
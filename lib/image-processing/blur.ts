@@ -0,0 +1,180 @@
+/**
+ * Gaussian blur and unsharp masking for the Detail sliders. Radii are
+ * fractions of the frame's long edge, so the preview and the full-resolution
+ * export look the same.
+ *
+ * Functions that blur take the worker's copy of blurPlane as a parameter,
+ * since each function is serialized into the worker source on its own.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+
+export type SharpenSettings = Pick<
+  ImageAdjustments,
+  'sharpness' | 'sharpenRadius' | 'sharpenThreshold' | 'sharpenMasking'
+>;
+
+type BlurPlane = (plane: Float32Array, width: number, height: number, sigma: number) => void;
+
+/**
+ * Separable Gaussian blur, in place on a single channel plane. Large radii
+ * use three box blur passes instead, which are indistinguishable at that
+ * size and don't slow down with the radius.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function blurPlane(plane: Float32Array, width: number, height: number, sigma: number): void {
+  if (sigma < 0.3 || width === 0 || height === 0) return;
+
+  const line = new Float32Array(Math.max(width, height));
+
+  if (sigma > 8) {
+    // Box radius whose three passes add up to the requested variance
+    const radius = Math.round((Math.sqrt(4 * sigma * sigma + 1) - 1) / 2);
+    const size = radius * 2 + 1;
+    const boxLine = (offset: number, stride: number, count: number) => {
+      for (let i = 0; i < count; i++) line[i] = plane[offset + i * stride];
+
+      // Running sum with the edges clamped
+      let sum = line[0] * (radius + 1);
+      for (let i = 1; i <= radius; i++) sum += line[Math.min(i, count - 1)];
+      for (let i = 0; i < count; i++) {
+        plane[offset + i * stride] = sum / size;
+        sum += line[Math.min(i + radius + 1, count - 1)] - line[Math.max(i - radius, 0)];
+      }
+    };
+
+    for (let pass = 0; pass < 3; pass++) {
+      for (let y = 0; y < height; y++) boxLine(y * width, 1, width);
+      for (let x = 0; x < width; x++) boxLine(x, width, height);
+    }
+    return;
+  }
+
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+    total += kernel[k + radius];
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= total;
+
+  const kernelLine = (offset: number, stride: number, count: number) => {
+    for (let i = 0; i < count; i++) line[i] = plane[offset + i * stride];
+    for (let i = 0; i < count; i++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += line[Math.min(count - 1, Math.max(0, i + k))] * kernel[k + radius];
+      }
+      plane[offset + i * stride] = sum;
+    }
+  };
+
+  for (let y = 0; y < height; y++) kernelLine(y * width, 1, width);
+  for (let x = 0; x < width; x++) kernelLine(x, width, height);
+}
+
+/**
+ * Blur the color channels. Amount 100 is a radius of 2% of the long edge.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyGaussianBlur(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  amount: number,
+  blur: BlurPlane
+): void {
+  if (!amount || width === 0 || height === 0) return;
+
+  const sigma = (amount / 100) * 0.02 * Math.max(width, height);
+  const size = width * height;
+  const plane = new Float32Array(size);
+  for (let c = 0; c < 3; c++) {
+    for (let p = 0; p < size; p++) plane[p] = data[p * 4 + c];
+    blur(plane, width, height, sigma);
+    for (let p = 0; p < size; p++) data[p * 4 + c] = plane[p];
+  }
+}
+
+/**
+ * Unsharp mask on luminance, so sharpening doesn't add color fringes.
+ * Threshold leaves low-contrast detail (noise, skin) alone and masking
+ * restricts the effect to edges; both are measured on the blurred image at
+ * the sharpening radius, so they behave the same at any resolution.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyUnsharpMask(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: SharpenSettings,
+  blur: BlurPlane
+): void {
+  const amount = ((settings.sharpness || 0) / 100) * 1.5;
+  if (amount === 0 || width === 0 || height === 0) return;
+
+  // Radius 0-100 is about 0.5-3px on a 1536px preview
+  const sigma = (0.0003 + ((settings.sharpenRadius ?? 25) / 100) * 0.0016) * Math.max(width, height);
+  const threshold = ((settings.sharpenThreshold || 0) / 100) * 20;
+  const masking = ((settings.sharpenMasking || 0) / 100) * 30;
+
+  const size = width * height;
+  const luminance = new Float32Array(size);
+  for (let p = 0, i = 0; p < size; p++, i += 4) {
+    luminance[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  }
+  const blurred = new Float32Array(luminance);
+  blur(blurred, width, height, sigma);
+
+  // Edge strength compares neighbours one radius apart
+  const step = Math.max(1, Math.round(sigma));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let detail = luminance[p] - blurred[p];
+
+      if (threshold > 0) {
+        // Ramp in over [threshold, 2 * threshold] to avoid hard cut-offs
+        const magnitude = Math.abs(detail);
+        detail *= Math.min(1, Math.max(0, (magnitude - threshold) / threshold));
+      }
+
+      if (masking > 0) {
+        const left = blurred[y * width + Math.max(0, x - step)];
+        const right = blurred[y * width + Math.min(width - 1, x + step)];
+        const up = blurred[Math.max(0, y - step) * width + x];
+        const down = blurred[Math.min(height - 1, y + step) * width + x];
+        const edge = Math.sqrt((right - left) * (right - left) + (down - up) * (down - up));
+        detail *= Math.min(1, Math.max(0, (edge - masking * 0.5) / (masking * 0.5)));
+      }
+
+      if (detail === 0) continue;
+      const delta = detail * amount;
+      const i = p * 4;
+      data[i] += delta;
+      data[i + 1] += delta;
+      data[i + 2] += delta;
+    }
+  }
+}
+
+/**
+ * Convert Detail settings saved before sharpenRadius existed. Those used
+ * fixed 3x3 kernels on the 1536px preview: any blur was a box blur (about a
+ * 0.8px Gaussian there) and sharpness added a Laplacian, which the unsharp
+ * mask at its default radius roughly matches at 1.75 times the amount.
+ * Settings that already have sharpenRadius are returned as they are.
+ */
+export function migrateKernelAdjustments(adjustments: Partial<ImageAdjustments>): Partial<ImageAdjustments> {
+  if ('sharpenRadius' in adjustments) return adjustments;
+  return {
+    ...adjustments,
+    blur: adjustments.blur ? 3 : 0,
+    sharpness: Math.min(100, Math.round((adjustments.sharpness || 0) * 1.75)),
+  };
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { useEditorStore } from '@/lib/store';
+import { bakeColorLut } from './canvas-utils';
+import { terminateWorker } from './worker-loader';
+
+type Listener = (e: { data: unknown }) => void;
+
+// Worker sources by object URL, so the worker can run in-process
+const sources = new Map<string, string>();
+
+class InlineWorker {
+  private listeners = new Set<Listener>();
+  private scope: { onmessage?: Listener; postMessage: (data: unknown) => void };
+
+  constructor(url: string) {
+    this.scope = { postMessage: (data) => this.listeners.forEach((listener) => listener({ data })) };
+    new Function('self', sources.get(url)!)(this.scope);
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    if (type === 'message') this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: Listener) {
+    this.listeners.delete(listener);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+
+  terminate() {}
+}
+
+beforeAll(() => {
+  vi.stubGlobal('Worker', InlineWorker);
+  vi.stubGlobal('Blob', class {
+    constructor(readonly parts: string[]) {}
+  });
+  vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+    const url = `blob:worker-${sources.size}`;
+    sources.set(url, (blob as unknown as { parts: string[] }).parts.join(''));
+    return url;
+  });
+});
+
+afterAll(() => {
+  terminateWorker();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('bakeColorLut', () => {
+  it('bakes untouched adjustments into an identity LUT', async () => {
+    useEditorStore.getState().setImage('data:,');
+    const adjustments = useEditorStore.getState().images[0].adjustments;
+    const size = 17;
+
+    const lut = await bakeColorLut(adjustments, size, 'Identity');
+
+    expect(lut.table).toHaveLength(size * size * size * 3);
+    // Lattice points aren't rounded to 8-bit levels, so a 17-point lattice
+    // (steps of 15.94 levels) comes back well within a hundredth of a level
+    let maxError = 0;
+    let j = 0;
+    for (let b = 0; b < size; b++) {
+      for (let g = 0; g < size; g++) {
+        for (let r = 0; r < size; r++) {
+          [r, g, b].forEach((value, c) => {
+            maxError = Math.max(maxError, Math.abs(lut.table[j + c] - value / (size - 1)));
+          });
+          j += 3;
+        }
+      }
+    }
+    expect(maxError).toBeLessThan(0.01 / 255);
+  });
+});
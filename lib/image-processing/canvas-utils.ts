@@ -1,14 +1,58 @@
-import { ImageAdjustments, CropState } from '@/lib/store';
-import { getImageWorker } from './worker-loader';
+import { ImageAdjustments, CropState, LocalMask, SpotOperation } from '@/lib/store';
+import { getImageWorker, getHorizonWorker } from './worker-loader';
+import { applySpotOperations } from './spot-healing';
+import { CubeLut, createLutLattice } from './cube-lut';
+import {
+  ExportFormat,
+  ExportResize,
+  OutputSharpening,
+  getExportDimensions,
+  resizeCanvas,
+  applyOutputSharpening,
+} from './export-utils';
+import { Resampling, getPerspectiveQuads, computeHomography, warpPerspective } from './perspective';
+import { hasLensCorrection, correctLens } from './lens-correction';
+import { getLut } from '@/lib/indexeddb-utils';
+
+// Parsed LUTs by id, so slider changes don't hit IndexedDB on every render
+const lutCache = new Map<string, CubeLut>();
+
+async function loadLut(lutId: string | null | undefined): Promise<CubeLut | null> {
+  if (!lutId) return null;
+  const cached = lutCache.get(lutId);
+  if (cached) return cached;
+
+  // A missing LUT (e.g. deleted from the library) is simply skipped
+  const lut = await getLut(lutId);
+  if (lut) lutCache.set(lutId, lut);
+  return lut;
+}
+
+// Drop a LUT from the cache once it is deleted from the library
+export function evictCachedLut(lutId: string): void {
+  lutCache.delete(lutId);
+}
 
 export async function processImage(
   imageSrc: string,
   adjustments: ImageAdjustments,
   crop: CropState,
-  options?: { format?: 'image/jpeg' | 'image/png'; quality?: number }
+  options?: {
+    format?: ExportFormat;
+    quality?: number;
+    resize?: ExportResize; // Output size, applied after all processing
+    sharpening?: OutputSharpening; // Output sharpening, applied after resizing
+    masks?: LocalMask[]; // Local adjustments, normalized to the output frame
+    spots?: SpotOperation[]; // Heal/clone spots, normalized to the source image
+    resampling?: Resampling; // Interpolation for geometric warps (default bicubic)
+    onProgress?: (progress: number) => void; // Progress (0-1) of slow worker steps such as noise reduction
+  }
 ): Promise<string> {
   const format = options?.format || 'image/jpeg';
+  const masks = options?.masks ?? [];
+  const spots = options?.spots ?? [];
   const quality = options?.quality ?? (format === 'image/jpeg' ? 0.92 : undefined);
+  const lut = await loadLut(adjustments.lutId);
   return new Promise(async (resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "anonymous";
@@ -31,9 +75,35 @@ export async function processImage(
           return;
         }
 
+        // 0. Retouch spots on the source image before any geometry or color work
+        let source: CanvasImageSource = img;
+        if (spots.length > 0) {
+          const retouchCanvas = document.createElement('canvas');
+          retouchCanvas.width = img.naturalWidth;
+          retouchCanvas.height = img.naturalHeight;
+          const retouchCtx = retouchCanvas.getContext('2d', { willReadFrequently: true });
+          if (retouchCtx) {
+            retouchCtx.drawImage(img, 0, 0);
+            applySpotOperations(retouchCtx, img.naturalWidth, img.naturalHeight, spots);
+            source = retouchCanvas;
+          }
+        }
+
+        // Lens corrections are centered on the optical axis, so they go first
+        const resampling = options?.resampling ?? 'bicubic';
+        source = correctSourceLens(source, img.naturalWidth, img.naturalHeight, adjustments, resampling);
+
+        // Quarter turns and flips come before crop and rotation, which are
+        // expressed in the oriented frame
+        const oriented = orientSource(source, img.naturalWidth, img.naturalHeight, crop);
+        source = oriented.source;
+        const sourceWidth = oriented.width;
+        const sourceHeight = oriented.height;
+        source = warpSource(source, sourceWidth, sourceHeight, crop, resampling);
+
         // Determine if we have a valid crop
         const hasCrop = crop.width > 0 && crop.height > 0;
-        const cropRatio = img.naturalWidth / crop.sourceWidth;
+        const cropRatio = sourceWidth / crop.sourceWidth;
 
         const effectiveCrop = hasCrop
           ? {
@@ -51,85 +121,24 @@ export async function processImage(
         // These coordinates are in the natural image space (naturalWidth/naturalHeight)
         // So we can use them directly
 
-        let width = hasCrop ? effectiveCrop.width : img.naturalWidth;
-        let height = hasCrop ? effectiveCrop.height : img.naturalHeight;
+        let width = hasCrop ? effectiveCrop.width : sourceWidth;
+        let height = hasCrop ? effectiveCrop.height : sourceHeight;
 
         // Step 1: Handle rotation first (if needed)
-        // When rotation is present, we rotate the image first, then crop
+        // The crop rectangle is axis-aligned in the frame of the unrotated
+        // image, and the image is rotated about its center underneath it,
+        // which is how the crop tool shows it
         if (hasRotation && hasCrop) {
           const rad = (effectiveCrop.rotation * Math.PI) / 180;
-          const cos = Math.abs(Math.cos(rad));
-          const sin = Math.abs(Math.sin(rad));
 
-          // Calculate rotated image dimensions
-          const rotatedWidth = img.naturalWidth * cos + img.naturalHeight * sin;
-          const rotatedHeight = img.naturalWidth * sin + img.naturalHeight * cos;
-
-          // Create rotated image canvas
-          const rotatedCanvas = document.createElement('canvas');
-          const rotatedCtx = rotatedCanvas.getContext('2d', {
-            imageSmoothingEnabled: true,
-            imageSmoothingQuality: 'high'
-          }) as CanvasRenderingContext2D;
-
-          rotatedCanvas.width = rotatedWidth;
-          rotatedCanvas.height = rotatedHeight;
-
-          // Rotate the full image
-          rotatedCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
-          rotatedCtx.rotate(rad);
-          rotatedCtx.translate(-img.naturalWidth / 2, -img.naturalHeight / 2);
-          rotatedCtx.drawImage(img, 0, 0);
-
-          // Transform crop coordinates from original to rotated space
-          const imgCenterX = img.naturalWidth / 2;
-          const imgCenterY = img.naturalHeight / 2;
-
-          const transformPoint = (x: number, y: number) => {
-            const dx = x - imgCenterX;
-            const dy = y - imgCenterY;
-            const rx = dx * Math.cos(rad) - dy * Math.sin(rad);
-            const ry = dx * Math.sin(rad) + dy * Math.cos(rad);
-            return {
-              x: rx + rotatedWidth / 2,
-              y: ry + rotatedHeight / 2
-            };
-          };
-
-          // Transform crop rectangle corners
-          const corners = [
-            transformPoint(effectiveCrop.x, effectiveCrop.y),
-            transformPoint(effectiveCrop.x + effectiveCrop.width, effectiveCrop.y),
-            transformPoint(effectiveCrop.x, effectiveCrop.y + effectiveCrop.height),
-            transformPoint(effectiveCrop.x + effectiveCrop.width, effectiveCrop.y + effectiveCrop.height),
-          ];
-
-          // Find bounding box in rotated space
-          const minX = Math.max(0, Math.min(...corners.map(c => c.x)));
-          const maxX = Math.min(rotatedWidth, Math.max(...corners.map(c => c.x)));
-          const minY = Math.max(0, Math.min(...corners.map(c => c.y)));
-          const maxY = Math.min(rotatedHeight, Math.max(...corners.map(c => c.y)));
-
-          // Update crop coordinates for rotated image
-          const rotatedCropX = minX;
-          const rotatedCropY = minY;
-          const rotatedCropWidth = maxX - minX;
-          const rotatedCropHeight = maxY - minY;
-
-          // Set canvas size to crop dimensions
           canvas.width = effectiveCrop.width;
           canvas.height = effectiveCrop.height;
 
-          // Draw cropped area and rotate back
           ctx.save();
-          ctx.translate(effectiveCrop.width / 2, effectiveCrop.height / 2);
-          ctx.rotate(-rad);
-          ctx.translate(-effectiveCrop.width / 2, -effectiveCrop.height / 2);
-          ctx.drawImage(
-            rotatedCanvas,
-            rotatedCropX, rotatedCropY, rotatedCropWidth, rotatedCropHeight,
-            0, 0, effectiveCrop.width, effectiveCrop.height
-          );
+          ctx.translate(-effectiveCrop.x, -effectiveCrop.y);
+          ctx.translate(sourceWidth / 2, sourceHeight / 2);
+          ctx.rotate(rad);
+          ctx.drawImage(source, -sourceWidth / 2, -sourceHeight / 2);
           ctx.restore();
 
           width = effectiveCrop.width;
@@ -139,22 +148,22 @@ export async function processImage(
           const rad = (effectiveCrop.rotation * Math.PI) / 180;
           const cos = Math.abs(Math.cos(rad));
           const sin = Math.abs(Math.sin(rad));
-          const rotatedWidth = img.naturalWidth * cos + img.naturalHeight * sin;
-          const rotatedHeight = img.naturalWidth * sin + img.naturalHeight * cos;
+          const rotatedWidth = sourceWidth * cos + sourceHeight * sin;
+          const rotatedHeight = sourceWidth * sin + sourceHeight * cos;
 
           canvas.width = rotatedWidth;
           canvas.height = rotatedHeight;
           ctx.clearRect(0, 0, rotatedWidth, rotatedHeight);
           ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
           ctx.rotate(rad);
-          ctx.translate(-img.naturalWidth / 2, -img.naturalHeight / 2);
-          ctx.drawImage(img, 0, 0);
+          ctx.translate(-sourceWidth / 2, -sourceHeight / 2);
+          ctx.drawImage(source, 0, 0);
 
           // Get image data from this canvas for further processing
           const imageData = ctx.getImageData(0, 0, rotatedWidth, rotatedHeight);
-          const processedImageData = await processImageInWorker(imageData, adjustments);
+          const processedImageData = await processImageInWorker(imageData, adjustments, masks, lut, options?.onProgress);
           ctx.putImageData(processedImageData, 0, 0);
-          resolve(canvas.toDataURL(format, quality));
+          resolve(encodeCanvas(canvas, format, quality, options));
           return;
         } else if (hasCrop) {
           // Simple crop without rotation
@@ -162,7 +171,7 @@ export async function processImage(
           canvas.height = effectiveCrop.height;
           ctx.clearRect(0, 0, effectiveCrop.width, effectiveCrop.height);
           ctx.drawImage(
-            img,
+            source,
             effectiveCrop.x, effectiveCrop.y, effectiveCrop.width, effectiveCrop.height,
             0, 0, effectiveCrop.width, effectiveCrop.height
           );
@@ -170,12 +179,12 @@ export async function processImage(
           height = effectiveCrop.height;
         } else {
           // No crop, no rotation - use full image
-          canvas.width = img.naturalWidth;
-          canvas.height = img.naturalHeight;
-          ctx.clearRect(0, 0, img.naturalWidth, img.naturalHeight);
-          ctx.drawImage(img, 0, 0);
-          width = img.naturalWidth;
-          height = img.naturalHeight;
+          canvas.width = sourceWidth;
+          canvas.height = sourceHeight;
+          ctx.clearRect(0, 0, sourceWidth, sourceHeight);
+          ctx.drawImage(source, 0, 0);
+          width = sourceWidth;
+          height = sourceHeight;
         }
 
         // Yield again before getImageData (which can be expensive)
@@ -185,7 +194,7 @@ export async function processImage(
         const imageData = ctx.getImageData(0, 0, width, height);
 
         // 3. Process image adjustments in Web Worker (non-blocking)
-        const processedImageData = await processImageInWorker(imageData, adjustments);
+        const processedImageData = await processImageInWorker(imageData, adjustments, masks, lut, options?.onProgress);
 
         // Yield before putImageData
         await new Promise(resolve => requestAnimationFrame(resolve));
@@ -195,7 +204,7 @@ export async function processImage(
 
         // 5. Export (use requestAnimationFrame to avoid blocking)
         await new Promise(resolve => requestAnimationFrame(resolve));
-        resolve(canvas.toDataURL(format, quality));
+        resolve(encodeCanvas(canvas, format, quality, options));
 
       } catch (error) {
         reject(error);
@@ -207,31 +216,139 @@ export async function processImage(
 }
 
 /**
- * Process image data in Web Worker (runs in separate thread)
+ * Apply the crop's quarter turns and flips to the source. Returns the source
+ * unchanged when it has no orientation change.
  */
-async function processImageInWorker(
-  imageData: ImageData,
-  adjustments: ImageAdjustments
-): Promise<ImageData> {
+function orientSource(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  crop: CropState
+): { source: CanvasImageSource; width: number; height: number } {
+  const quarterTurns = (((crop.quarterTurns || 0) % 4) + 4) % 4;
+  if (quarterTurns === 0 && !crop.flipH && !crop.flipV) {
+    return { source, width, height };
+  }
+
+  const swapped = quarterTurns % 2 === 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = swapped ? height : width;
+  canvas.height = swapped ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { source, width, height };
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.scale(crop.flipH ? -1 : 1, crop.flipV ? -1 : 1);
+  ctx.rotate((quarterTurns * Math.PI) / 2);
+  ctx.drawImage(source, -width / 2, -height / 2);
+  return { source: canvas, width: canvas.width, height: canvas.height };
+}
+
+/**
+ * Apply the lens corrections to the source. Returns the source unchanged
+ * when there are none.
+ */
+function correctSourceLens(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments,
+  resampling: Resampling
+): CanvasImageSource {
+  if (!hasLensCorrection(adjustments)) return source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return source;
+
+  ctx.drawImage(source, 0, 0);
+  ctx.putImageData(correctLens(ctx.getImageData(0, 0, width, height), adjustments, resampling), 0, 0);
+  return canvas;
+}
+
+/**
+ * Apply the crop's perspective correction to the (oriented) source. The
+ * frame size stays the same; returns the source unchanged without perspective.
+ */
+function warpSource(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  crop: CropState,
+  resampling: Resampling
+): CanvasImageSource {
+  const quads = getPerspectiveQuads(crop, width, height);
+  if (!quads) return source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return source;
+
+  ctx.drawImage(source, 0, 0);
+  const targetToSource = computeHomography(quads.target, quads.source);
+  ctx.putImageData(warpPerspective(ctx.getImageData(0, 0, width, height), targetToSource, resampling), 0, 0);
+  return canvas;
+}
+
+/**
+ * Resize and sharpen the processed canvas for output, then encode it.
+ */
+function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  format: ExportFormat,
+  quality: number | undefined,
+  options?: { resize?: ExportResize; sharpening?: OutputSharpening }
+): string {
+  let output = canvas;
+  const { width, height } = getExportDimensions(canvas.width, canvas.height, options?.resize);
+  if (width !== canvas.width || height !== canvas.height) {
+    output = resizeCanvas(canvas, width, height);
+  }
+  if (options?.sharpening) {
+    applyOutputSharpening(output, options.sharpening);
+  }
+  return output.toDataURL(format, quality);
+}
+
+// Long edge of the image analysed for horizon detection
+const HORIZON_ANALYSIS_SIZE = 512;
+
+/**
+ * Detect the tilt of the dominant horizon or vertical edge in an image, in
+ * degrees (clockwise positive), or null when none is found within maxAngle.
+ */
+export async function detectHorizon(imageSrc: string, maxAngle = 15): Promise<number | null> {
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageSrc;
+  });
+
+  const scale = Math.min(1, HORIZON_ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
   return new Promise((resolve, reject) => {
-    const worker = getImageWorker();
+    const worker = getHorizonWorker();
 
-    // Handle worker response
     const handleMessage = (e: MessageEvent) => {
       worker.removeEventListener('message', handleMessage);
       worker.removeEventListener('error', handleError);
 
       if (e.data.success) {
-        // Reconstruct ImageData from worker response
-        const processedData = new Uint8ClampedArray(e.data.imageData.data);
-        const processedImageData = new ImageData(
-          processedData,
-          e.data.imageData.width,
-          e.data.imageData.height
-        );
-        resolve(processedImageData);
+        resolve(e.data.angle);
       } else {
-        reject(new Error(e.data.error || 'Worker processing failed'));
+        reject(new Error(e.data.error || 'Horizon detection failed'));
       }
     };
 
@@ -244,21 +361,140 @@ async function processImageInWorker(
     worker.addEventListener('message', handleMessage);
     worker.addEventListener('error', handleError);
 
-    // Clone the buffer before transferring (original will be detached after transfer)
-    const buffer = imageData.data.buffer.slice(0);
-
-    // Send image data to worker
-    // Transfer the ArrayBuffer for zero-copy transfer (faster)
     worker.postMessage(
       {
         imageData: {
-          data: buffer,
+          data: imageData.data.buffer,
           width: imageData.width,
           height: imageData.height
         },
-        adjustments
+        maxAngle
       },
-      [buffer] // Transfer ownership for performance
+      [imageData.data.buffer]
     );
   });
 }
+
+/**
+ * Bake the color part of the adjustments (sliders, HSL, curves and any
+ * applied LUT) into a 3D LUT by running a lattice through the same worker.
+ * Spatial effects can't be expressed as a per-pixel color mapping, so only
+ * the color stages run, in floating point.
+ */
+export async function bakeColorLut(
+  adjustments: ImageAdjustments,
+  size: number,
+  title: string
+): Promise<CubeLut> {
+  const lattice = createLutLattice(size);
+  const lut = await loadLut(adjustments.lutId);
+  const result = await requestImageWorker<{ lattice: ArrayBuffer }>(
+    { lattice: lattice.buffer, adjustments, lut },
+    [lattice.buffer]
+  );
+  const values = new Float32Array(result.lattice);
+
+  const table = new Float32Array(size * size * size * 3);
+  for (let i = 0, j = 0; i < values.length; i += 4, j += 3) {
+    table[j] = values[i] / 255;
+    table[j + 1] = values[i + 1] / 255;
+    table[j + 2] = values[i + 2] / 255;
+  }
+
+  return {
+    title,
+    type: '3D',
+    size,
+    domainMin: [0, 0, 0],
+    domainMax: [1, 1, 1],
+    table,
+  };
+}
+
+// Identifies each request to the shared image worker, so concurrent calls
+// (preview, export and LUT baking) only act on their own progress and
+// result messages
+let nextWorkerRequestId = 0;
+
+/**
+ * Send a request to the image worker and resolve with its successful result
+ * message. Transferred buffers are detached from the caller.
+ */
+function requestImageWorker<T>(
+  message: object,
+  transfer: Transferable[],
+  onProgress?: (progress: number) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = getImageWorker();
+    const requestId = ++nextWorkerRequestId;
+
+    // Handle worker response
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data.requestId !== requestId) return;
+
+      // Progress updates arrive before the result
+      if (e.data.progress !== undefined) {
+        onProgress?.(e.data.progress);
+        return;
+      }
+
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+
+      if (e.data.success) {
+        resolve(e.data as T);
+      } else {
+        reject(new Error(e.data.error || 'Worker processing failed'));
+      }
+    };
+
+    const handleError = (error: ErrorEvent) => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      reject(new Error(`Worker error: ${error.message}`));
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+
+    worker.postMessage({ requestId, ...message }, transfer);
+  });
+}
+
+/**
+ * Process image data in Web Worker (runs in separate thread)
+ */
+async function processImageInWorker(
+  imageData: ImageData,
+  adjustments: ImageAdjustments,
+  masks: LocalMask[],
+  lut: CubeLut | null,
+  onProgress?: (progress: number) => void
+): Promise<ImageData> {
+  // Clone the buffer before transferring (original will be detached after transfer)
+  const buffer = imageData.data.buffer.slice(0);
+
+  // Transfer the ArrayBuffer for zero-copy transfer (faster)
+  const result = await requestImageWorker<{ imageData: { data: ArrayBuffer; width: number; height: number } }>(
+    {
+      imageData: {
+        data: buffer,
+        width: imageData.width,
+        height: imageData.height
+      },
+      adjustments,
+      masks,
+      lut
+    },
+    [buffer],
+    onProgress
+  );
+
+  // Reconstruct ImageData from worker response
+  return new ImageData(
+    new Uint8ClampedArray(result.imageData.data),
+    result.imageData.width,
+    result.imageData.height
+  );
+}
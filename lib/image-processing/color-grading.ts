@@ -0,0 +1,105 @@
+/**
+ * Three-way color grading: shadows, midtones and highlights each get a tint
+ * and a luminance shift, blended by the pixel's luminance.
+ *
+ * Tints follow hueOffset, which split toning (see ./monochrome) shares.
+ * Both take the worker's copy of it as a parameter, since each function is
+ * serialized into the worker source on its own.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+
+export type ColorGradingSettings = Pick<
+  ImageAdjustments,
+  | 'gradeShadowHue'
+  | 'gradeShadowSaturation'
+  | 'gradeShadowLuminance'
+  | 'gradeMidtoneHue'
+  | 'gradeMidtoneSaturation'
+  | 'gradeMidtoneLuminance'
+  | 'gradeHighlightHue'
+  | 'gradeHighlightSaturation'
+  | 'gradeHighlightLuminance'
+  | 'gradeBlending'
+  | 'gradeBalance'
+>;
+
+export type HueOffset = (hue: number) => [number, number, number];
+
+/**
+ * Offset from gray (-1 to 1 per channel) towards a fully saturated hue, in
+ * degrees. The offset has zero luminance, so tinting along it leaves the
+ * brightness alone.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function hueOffset(hue: number): [number, number, number] {
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = 1 - Math.abs((h % 2) - 1);
+  let rgb: [number, number, number];
+  if (h < 1) rgb = [1, x, 0];
+  else if (h < 2) rgb = [x, 1, 0];
+  else if (h < 3) rgb = [0, 1, x];
+  else if (h < 4) rgb = [0, x, 1];
+  else if (h < 5) rgb = [x, 0, 1];
+  else rgb = [1, 0, x];
+  const luma = 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+  return [rgb[0] - luma, rgb[1] - luma, rgb[2] - luma];
+}
+
+/**
+ * Tint by luminance. Each range has a smooth bell-shaped weight centered on
+ * black, middle gray and white; the weights always add up to one, so a tint
+ * shared by all three wheels is applied evenly. Blending widens the bells and
+ * balance moves them towards the shadows or highlights.
+ *
+ * The offset for each of the 256 luminance levels is precomputed, so the
+ * per-pixel work is a table lookup.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyColorGrading(
+  data: Uint8ClampedArray,
+  settings: ColorGradingSettings,
+  toHueOffset: HueOffset
+): void {
+  const ranges = [
+    [settings.gradeShadowHue || 0, settings.gradeShadowSaturation || 0, settings.gradeShadowLuminance || 0],
+    [settings.gradeMidtoneHue || 0, settings.gradeMidtoneSaturation || 0, settings.gradeMidtoneLuminance || 0],
+    [settings.gradeHighlightHue || 0, settings.gradeHighlightSaturation || 0, settings.gradeHighlightLuminance || 0],
+  ];
+  if (ranges.every(([, saturation, luminance]) => saturation === 0 && luminance === 0)) return;
+
+  // Offset from gray (0-255 scale) for each range: the hue offset scaled by
+  // saturation, plus the luminance shift
+  const offsets = ranges.map(([hue, saturation, luminance]) => {
+    // Saturation 100 moves a color about 30% of the way to the hue and
+    // luminance +/-100 shifts by a quarter of the range
+    const scale = (saturation / 100) * 0.3 * 255;
+    const shift = (luminance / 100) * 0.25 * 255;
+    return toHueOffset(hue).map((c) => c * scale + shift);
+  });
+
+  // Blending 0-100 sets the bell width; balance +/-100 bends the
+  // luminance axis so highlights (positive) or shadows cover more
+  const sigma = 0.1 + ((settings.gradeBlending ?? 50) / 100) * 0.3;
+  const exponent = Math.pow(2, -(settings.gradeBalance || 0) / 100);
+  const table = new Float32Array(256 * 3);
+  for (let level = 0; level < 256; level++) {
+    const l = Math.pow(level / 255, exponent);
+    const weights = [0, 0.5, 1].map((center) => Math.exp(-((l - center) * (l - center)) / (2 * sigma * sigma)));
+    const total = weights[0] + weights[1] + weights[2];
+    for (let c = 0; c < 3; c++) {
+      table[level * 3 + c] = (
+        weights[0] * offsets[0][c] + weights[1] * offsets[1][c] + weights[2] * offsets[2][c]
+      ) / total;
+    }
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const level = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * 3;
+    data[i] += table[level];
+    data[i + 1] += table[level + 1];
+    data[i + 2] += table[level + 2];
+  }
+}
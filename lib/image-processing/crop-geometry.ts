@@ -0,0 +1,67 @@
+/**
+ * Geometry helpers for straightening: angles from drawn lines and the crop
+ * that keeps a rotated image free of empty corners.
+ */
+
+/**
+ * Rotation (degrees, clockwise) that makes a line horizontal or vertical,
+ * whichever is closer. Points are in screen space (y down).
+ */
+export function getStraightenAngle(
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): number {
+  const angle = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+  return -(angle - 90 * Math.round(angle / 90));
+}
+
+/**
+ * Normalize an angle in degrees to [0, 360).
+ */
+export function normalizeRotation(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Size of the largest axis-aligned rectangle that fits inside a width x height
+ * rectangle rotated by `degrees` about its center. With an aspect ratio
+ * (width / height) the rectangle keeps that ratio; otherwise it has the
+ * largest possible area. The rectangle is centered on the image.
+ */
+export function getLargestInscribedRect(
+  width: number,
+  height: number,
+  degrees: number,
+  aspect?: number
+): { width: number; height: number } {
+  if (width <= 0 || height <= 0) return { width: 0, height: 0 };
+
+  const rad = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(rad));
+  const cos = Math.abs(Math.cos(rad));
+
+  if (aspect && aspect > 0) {
+    // Every corner of the centered rectangle must stay inside the image
+    const h = Math.min(width / (aspect * cos + sin), height / (aspect * sin + cos));
+    return { width: h * aspect, height: h };
+  }
+
+  const widthIsLonger = width >= height;
+  const longSide = widthIsLonger ? width : height;
+  const shortSide = widthIsLonger ? height : width;
+
+  // Half-constrained case: two corners touch the longer side
+  if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-10) {
+    const x = shortSide / 2;
+    return widthIsLonger
+      ? { width: x / sin, height: x / cos }
+      : { width: x / cos, height: x / sin };
+  }
+
+  // Fully constrained case: all four corners touch the sides
+  const cos2 = cos * cos - sin * sin;
+  return {
+    width: (width * cos - height * sin) / cos2,
+    height: (height * cos - width * sin) / cos2,
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCubeLut,
+  MAX_CUBE_LUT_1D_SIZE,
+  MAX_CUBE_LUT_3D_SIZE,
+  parseCubeLut,
+  serializeCubeLut,
+} from './cube-lut';
+
+// Identity 3D table in .cube order (red varies fastest)
+function identityEntries(size: number): string[] {
+  const entries: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        entries.push([r, g, b].map((v) => v / (size - 1)).join(' '));
+      }
+    }
+  }
+  return entries;
+}
+
+describe('parseCubeLut', () => {
+  it('parses a 3D LUT with its title, comments and blank lines', () => {
+    const lut = parseCubeLut([
+      '# Created by hand',
+      'TITLE "Warm Look"',
+      '',
+      'LUT_3D_SIZE 2',
+      ...identityEntries(2),
+    ].join('\r\n'));
+
+    expect(lut.title).toBe('Warm Look');
+    expect(lut.type).toBe('3D');
+    expect(lut.size).toBe(2);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+    expect(Array.from(lut.table.slice(0, 6))).toEqual([0, 0, 0, 1, 0, 0]);
+    expect(lut.table).toHaveLength(2 * 2 * 2 * 3);
+  });
+
+  it('parses a 1D LUT', () => {
+    const lut = parseCubeLut(['LUT_1D_SIZE 3', '0 0 0', '0.25 0.5 0.75', '1 1 1'].join('\n'));
+
+    expect(lut.type).toBe('1D');
+    expect(lut.size).toBe(3);
+    expect(Array.from(lut.table)).toEqual([0, 0, 0, 0.25, 0.5, 0.75, 1, 1, 1]);
+  });
+
+  it('reads DOMAIN_MIN and DOMAIN_MAX per channel', () => {
+    const lut = parseCubeLut([
+      'LUT_1D_SIZE 2',
+      'DOMAIN_MIN 0 0.1 0.2',
+      'DOMAIN_MAX 1 2 3',
+      '0 0 0',
+      '1 1 1',
+    ].join('\n'));
+
+    expect(lut.domainMin).toEqual([0, 0.1, 0.2]);
+    expect(lut.domainMax).toEqual([1, 2, 3]);
+  });
+
+  it('reads LUT_1D_INPUT_RANGE and LUT_3D_INPUT_RANGE as a shared domain', () => {
+    const lut1D = parseCubeLut(['LUT_1D_SIZE 2', 'LUT_1D_INPUT_RANGE -0.5 1.5', '0 0 0', '1 1 1'].join('\n'));
+    expect(lut1D.domainMin).toEqual([-0.5, -0.5, -0.5]);
+    expect(lut1D.domainMax).toEqual([1.5, 1.5, 1.5]);
+
+    const lut3D = parseCubeLut(['LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 0 4', ...identityEntries(2)].join('\n'));
+    expect(lut3D.domainMin).toEqual([0, 0, 0]);
+    expect(lut3D.domainMax).toEqual([4, 4, 4]);
+  });
+
+  it('rejects an empty or inverted domain', () => {
+    expect(() => parseCubeLut(['LUT_1D_SIZE 2', 'DOMAIN_MIN 0 1 0', '0 0 0', '1 1 1'].join('\n')))
+      .toThrow('DOMAIN_MIN must be less than DOMAIN_MAX');
+    expect(() => parseCubeLut(['LUT_1D_SIZE 2', 'LUT_1D_INPUT_RANGE 1 0', '0 0 0', '1 1 1'].join('\n')))
+      .toThrow('DOMAIN_MIN must be less than DOMAIN_MAX');
+  });
+
+  it('accepts sizes up to the limits and rejects anything outside them', () => {
+    expect(() => parseCubeLut(`LUT_3D_SIZE ${MAX_CUBE_LUT_3D_SIZE + 1}`))
+      .toThrow(`Line 1: 3D LUT size must be between 2 and ${MAX_CUBE_LUT_3D_SIZE}`);
+    expect(() => parseCubeLut(`LUT_1D_SIZE ${MAX_CUBE_LUT_1D_SIZE + 1}`))
+      .toThrow(`Line 1: 1D LUT size must be between 2 and ${MAX_CUBE_LUT_1D_SIZE}`);
+    expect(() => parseCubeLut('LUT_3D_SIZE 1')).toThrow('3D LUT size must be between 2');
+    expect(() => parseCubeLut('LUT_3D_SIZE 2.5')).toThrow('3D LUT size must be between 2');
+
+    const entries = Array(MAX_CUBE_LUT_1D_SIZE).fill('0 0 0');
+    const largest = parseCubeLut([`LUT_1D_SIZE ${MAX_CUBE_LUT_1D_SIZE}`, ...entries].join('\n'));
+    expect(largest.size).toBe(MAX_CUBE_LUT_1D_SIZE);
+  });
+
+  it('rejects a second size declaration', () => {
+    expect(() => parseCubeLut(['LUT_3D_SIZE 2', 'LUT_1D_SIZE 2'].join('\n')))
+      .toThrow('Line 2: LUT size declared twice');
+  });
+
+  it('rejects a file without a size', () => {
+    expect(() => parseCubeLut('TITLE "Nothing"')).toThrow('Missing LUT_1D_SIZE or LUT_3D_SIZE');
+  });
+
+  it('rejects a table with the wrong number of entries', () => {
+    expect(() => parseCubeLut(['LUT_3D_SIZE 2', ...identityEntries(2).slice(1)].join('\n')))
+      .toThrow('Expected 8 entries, found 7');
+    expect(() => parseCubeLut(['LUT_1D_SIZE 2', '0 0 0', '0.5 0.5 0.5', '1 1 1'].join('\n')))
+      .toThrow('Expected 2 entries, found 3');
+  });
+
+  it('rejects data before the size line', () => {
+    expect(() => parseCubeLut(['TITLE "Early"', '0 0 0', 'LUT_1D_SIZE 2'].join('\n')))
+      .toThrow('Line 2: data found before LUT size');
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseCubeLut(['LUT_1D_SIZE 2', '0 0', '1 1 1'].join('\n'))).toThrow('Line 2: expected three values');
+    expect(() => parseCubeLut(['LUT_1D_SIZE 2', '0 0 0', '1 1e 1'].join('\n'))).toThrow('Line 3: invalid number');
+  });
+
+  it('reads back what serializeCubeLut writes', () => {
+    const lut = parseCubeLut(['TITLE "Round Trip"', 'LUT_3D_SIZE 2', ...identityEntries(2)].join('\n'));
+    expect(parseCubeLut(serializeCubeLut(lut))).toEqual(lut);
+  });
+});
+
+describe('applyCubeLut', () => {
+  it('leaves pixels unchanged through an identity 3D table', () => {
+    const lut = parseCubeLut(['LUT_3D_SIZE 17', ...identityEntries(17)].join('\n'));
+    const data = new Uint8ClampedArray(256 * 4);
+    for (let i = 0; i < 256; i++) {
+      // Neutral, saturated and in-between colors
+      data.set([i, (i * 7) % 256, 255 - i, 255], i * 4);
+    }
+    const original = data.slice();
+
+    applyCubeLut(data, lut, 100);
+
+    expect(Array.from(data)).toEqual(Array.from(original));
+  });
+
+  it('blends the result by intensity', () => {
+    const inverted = parseCubeLut(['LUT_1D_SIZE 2', '1 1 1', '0 0 0'].join('\n'));
+    const data = new Uint8ClampedArray([200, 100, 0, 255]);
+
+    applyCubeLut(data, inverted, 50);
+
+    expect(Array.from(data)).toEqual([128, 128, 128, 255]);
+  });
+});
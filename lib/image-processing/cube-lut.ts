@@ -0,0 +1,248 @@
+/**
+ * Adobe / Resolve `.cube` LUT parsing and application.
+ *
+ * Tables are stored as RGB float triplets in file order (red varies fastest),
+ * which is also the layout the worker expects.
+ */
+
+export const MAX_CUBE_LUT_3D_SIZE = 65;
+export const MAX_CUBE_LUT_1D_SIZE = 65536;
+
+export interface CubeLut {
+  title: string;
+  type: '1D' | '3D';
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array; // size (1D) or size^3 (3D) RGB triplets
+}
+
+const parseTriplet = (parts: string[], lineNumber: number): [number, number, number] => {
+  if (parts.length < 3) {
+    throw new Error(`Line ${lineNumber}: expected three values`);
+  }
+  const values = parts.slice(0, 3).map(Number);
+  if (values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Line ${lineNumber}: invalid number`);
+  }
+  return [values[0], values[1], values[2]];
+};
+
+/**
+ * Parse the text of a `.cube` file. Throws an Error describing the first
+ * problem found when the file is malformed or unsupported.
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title = '';
+  let type: CubeLut['type'] | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    const lineNumber = i + 1;
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '');
+    } else if (keyword === 'LUT_1D_SIZE' || keyword === 'LUT_3D_SIZE') {
+      if (type) throw new Error(`Line ${lineNumber}: LUT size declared twice`);
+      type = keyword === 'LUT_1D_SIZE' ? '1D' : '3D';
+      size = Number(parts[1]);
+      const maxSize = type === '1D' ? MAX_CUBE_LUT_1D_SIZE : MAX_CUBE_LUT_3D_SIZE;
+      if (!Number.isInteger(size) || size < 2 || size > maxSize) {
+        throw new Error(`Line ${lineNumber}: ${type} LUT size must be between 2 and ${maxSize}`);
+      }
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts.slice(1), lineNumber);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts.slice(1), lineNumber);
+    } else if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      // Resolve's variant of DOMAIN_MIN/MAX, shared by all three channels
+      const min = Number(parts[1]);
+      const max = Number(parts[2]);
+      if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        throw new Error(`Line ${lineNumber}: invalid input range`);
+      }
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!type) throw new Error(`Line ${lineNumber}: data found before LUT size`);
+      values.push(...parseTriplet(parts, lineNumber));
+    }
+    // Other keywords (e.g. LUT_IN_VIDEO_RANGE) are ignored
+  }
+
+  if (!type) {
+    throw new Error('Missing LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new Error('DOMAIN_MIN must be less than DOMAIN_MAX');
+  }
+
+  const expected = (type === '1D' ? size : size * size * size) * 3;
+  if (values.length !== expected) {
+    throw new Error(`Expected ${expected / 3} entries, found ${values.length / 3}`);
+  }
+
+  return {
+    title,
+    type,
+    size,
+    domainMin,
+    domainMax,
+    table: new Float32Array(values),
+  };
+}
+
+/**
+ * Apply a LUT to RGBA pixel data in place, blending with the input by
+ * intensity (0-100). 1D LUTs are interpolated linearly per channel and 3D
+ * LUTs use tetrahedral interpolation, which keeps neutral axes neutral.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyCubeLut(
+  data: Uint8ClampedArray,
+  lut: Pick<CubeLut, 'type' | 'size' | 'domainMin' | 'domainMax' | 'table'>,
+  intensity: number
+) {
+  const amount = Math.max(0, Math.min(100, intensity)) / 100;
+  if (amount === 0) return;
+
+  const table = lut.table;
+  const size = lut.size;
+  const last = size - 1;
+  const is3D = lut.type === '3D';
+  const scale = [0, 1, 2].map(function (c) {
+    return last / (lut.domainMax[c] - lut.domainMin[c]);
+  });
+  const toGrid = function (value: number, c: number) {
+    return Math.max(0, Math.min(last, (value / 255 - lut.domainMin[c]) * scale[c]));
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    let outR;
+    let outG;
+    let outB;
+
+    if (!is3D) {
+      const out = [0, 0, 0];
+      for (let c = 0; c < 3; c++) {
+        const x = toGrid(data[i + c], c);
+        const x0 = Math.min(Math.floor(x), last - 1);
+        const f = x - x0;
+        out[c] = table[x0 * 3 + c] * (1 - f) + table[(x0 + 1) * 3 + c] * f;
+      }
+      outR = out[0];
+      outG = out[1];
+      outB = out[2];
+    } else {
+      const x = toGrid(r, 0);
+      const y = toGrid(g, 1);
+      const z = toGrid(b, 2);
+      const x0 = Math.min(Math.floor(x), last - 1);
+      const y0 = Math.min(Math.floor(y), last - 1);
+      const z0 = Math.min(Math.floor(z), last - 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const fz = z - z0;
+
+      // Offsets (in floats) along each axis of the table
+      const dx = 3;
+      const dy = size * 3;
+      const dz = size * size * 3;
+      const c000 = x0 * dx + y0 * dy + z0 * dz;
+      const c111 = c000 + dx + dy + dz;
+
+      // Pick the tetrahedron containing the point and its barycentric weights
+      let c1;
+      let c2;
+      let w0;
+      let w1;
+      let w2;
+      let w3;
+      if (fx >= fy) {
+        if (fy >= fz) {
+          c1 = c000 + dx; c2 = c000 + dx + dy;
+          w0 = 1 - fx; w1 = fx - fy; w2 = fy - fz; w3 = fz;
+        } else if (fx >= fz) {
+          c1 = c000 + dx; c2 = c000 + dx + dz;
+          w0 = 1 - fx; w1 = fx - fz; w2 = fz - fy; w3 = fy;
+        } else {
+          c1 = c000 + dz; c2 = c000 + dx + dz;
+          w0 = 1 - fz; w1 = fz - fx; w2 = fx - fy; w3 = fy;
+        }
+      } else {
+        if (fz >= fy) {
+          c1 = c000 + dz; c2 = c000 + dy + dz;
+          w0 = 1 - fz; w1 = fz - fy; w2 = fy - fx; w3 = fx;
+        } else if (fz >= fx) {
+          c1 = c000 + dy; c2 = c000 + dy + dz;
+          w0 = 1 - fy; w1 = fy - fz; w2 = fz - fx; w3 = fx;
+        } else {
+          c1 = c000 + dy; c2 = c000 + dx + dy;
+          w0 = 1 - fy; w1 = fy - fx; w2 = fx - fz; w3 = fz;
+        }
+      }
+
+      outR = w0 * table[c000] + w1 * table[c1] + w2 * table[c2] + w3 * table[c111];
+      outG = w0 * table[c000 + 1] + w1 * table[c1 + 1] + w2 * table[c2 + 1] + w3 * table[c111 + 1];
+      outB = w0 * table[c000 + 2] + w1 * table[c1 + 2] + w2 * table[c2 + 2] + w3 * table[c111 + 2];
+    }
+
+    data[i] = r + (outR * 255 - r) * amount;
+    data[i + 1] = g + (outG * 255 - g) * amount;
+    data[i + 2] = b + (outB * 255 - b) * amount;
+  }
+}
+
+export const CUBE_EXPORT_SIZES = [17, 33, 65];
+
+/**
+ * RGBA values (0-255, unrounded) for every lattice point of a 3D LUT, in
+ * `.cube` order. Running these through the color stages samples the grade
+ * exactly at each point.
+ */
+export function createLutLattice(size: number): Float32Array<ArrayBuffer> {
+  const data = new Float32Array(size * size * size * 4);
+  const step = 255 / (size - 1);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        data[i] = r * step;
+        data[i + 1] = g * step;
+        data[i + 2] = b * step;
+        data[i + 3] = 255;
+        i += 4;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Serialize a LUT to `.cube` text.
+ */
+export function serializeCubeLut(lut: CubeLut): string {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    `LUT_${lut.type}_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+  ];
+  for (let i = 0; i < lut.table.length; i += 3) {
+    lines.push(`${lut.table[i].toFixed(6)} ${lut.table[i + 1].toFixed(6)} ${lut.table[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+}
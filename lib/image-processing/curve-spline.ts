@@ -0,0 +1,93 @@
+/**
+ * Monotonic cubic spline used for tone curves.
+ *
+ * The same evaluator draws the curve in CurveEditor and builds the LUTs in the
+ * image worker, so what the widget shows is exactly what gets applied.
+ */
+
+import type { Point } from '@/lib/store';
+
+/**
+ * Builds an evaluator for a tone curve using Fritsch-Carlson monotone cubic
+ * Hermite interpolation. Outside the first/last point the curve is held flat
+ * at the endpoint value, and results are clamped to [0, 1].
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function createCurveEvaluator(points: Point[]): (x: number) => number {
+  const sorted = points
+    .map(function (p) { return { x: p.x, y: p.y }; })
+    .sort(function (a, b) { return a.x - b.x; });
+  const n = sorted.length;
+  const clampUnit = function (v: number) { return Math.max(0, Math.min(1, v)); };
+
+  if (n === 0) {
+    return function (x: number) { return clampUnit(x); };
+  }
+  if (n === 1) {
+    const constant = clampUnit(sorted[0].y);
+    return function () { return constant; };
+  }
+
+  // Secant slopes between consecutive points
+  const deltas: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = sorted[i + 1].x - sorted[i].x;
+    deltas.push(dx === 0 ? 0 : (sorted[i + 1].y - sorted[i].y) / dx);
+  }
+
+  // Initial tangents: one-sided at the ends, averaged secants in between
+  const tangents: number[] = [deltas[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(deltas[i - 1] * deltas[i] <= 0 ? 0 : (deltas[i - 1] + deltas[i]) / 2);
+  }
+  tangents.push(deltas[n - 2]);
+
+  // Limit tangents so each segment stays monotonic (no overshoot)
+  for (let i = 0; i < n - 1; i++) {
+    if (deltas[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / deltas[i];
+    const b = tangents[i + 1] / deltas[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const tau = 3 / Math.sqrt(s);
+      tangents[i] = tau * a * deltas[i];
+      tangents[i + 1] = tau * b * deltas[i];
+    }
+  }
+
+  return function (x: number) {
+    if (x <= sorted[0].x) return clampUnit(sorted[0].y);
+    if (x >= sorted[n - 1].x) return clampUnit(sorted[n - 1].y);
+
+    // Binary search for the containing segment
+    let lo = 0;
+    let hi = n - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid].x <= x) lo = mid;
+      else hi = mid;
+    }
+
+    const p0 = sorted[lo];
+    const p1 = sorted[hi];
+    const h = p1.x - p0.x;
+    if (h === 0) return clampUnit(p1.y);
+
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+
+    return clampUnit(
+      h00 * p0.y + h10 * h * tangents[lo] + h01 * p1.y + h11 * h * tangents[hi]
+    );
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Finishing effects applied last in the worker: post-crop vignette and film
+ * grain. Both are laid out relative to the processed (cropped) frame, so the
+ * preview and the full-resolution export look the same.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+
+export type VignetteSettings = Pick<
+  ImageAdjustments,
+  'vignetteAmount' | 'vignetteMidpoint' | 'vignetteRoundness' | 'vignetteFeather' | 'vignetteHighlights'
+>;
+
+export type GrainSettings = Pick<ImageAdjustments, 'grainAmount' | 'grainSize' | 'grainRoughness' | 'grainSeed'>;
+
+/**
+ * Darken (negative amount) or lighten (positive amount) the frame towards
+ * its edges. Roundness goes from a rounded rectangle following the frame
+ * (-100) through an ellipse (0) to a circle (100).
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyVignette(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: VignetteSettings
+): void {
+  const amount = (settings.vignetteAmount || 0) / 100;
+  if (amount === 0 || width === 0 || height === 0) return;
+
+  const roundness = (settings.vignetteRoundness ?? 0) / 100;
+  const midpoint = 0.3 + ((settings.vignetteMidpoint ?? 50) / 100) * 0.9;
+  const feather = Math.max(0.02, ((settings.vignetteFeather ?? 50) / 100) * 0.9);
+  const protect = (settings.vignetteHighlights || 0) / 100;
+  const inner = midpoint * (1 - feather);
+  const outer = midpoint * (1 + feather);
+
+  // Positive roundness pulls the ellipse towards a circle over the short side,
+  // negative roundness squares it off with a superellipse
+  const shortSide = Math.min(width, height);
+  const scaleX = 1 + Math.max(0, roundness) * (width / shortSide - 1);
+  const scaleY = 1 + Math.max(0, roundness) * (height / shortSide - 1);
+  const exponent = 2 + Math.max(0, -roundness) * 8;
+
+  for (let y = 0; y < height; y++) {
+    const v = Math.abs((((y + 0.5) / height) * 2 - 1) * scaleY);
+    for (let x = 0; x < width; x++) {
+      const u = Math.abs((((x + 0.5) / width) * 2 - 1) * scaleX);
+      const distance = exponent === 2
+        ? Math.sqrt(u * u + v * v)
+        : Math.pow(Math.pow(u, exponent) + Math.pow(v, exponent), 1 / exponent);
+      if (distance <= inner) continue;
+
+      const t = Math.min(1, (distance - inner) / (outer - inner));
+      const weight = t * t * (3 - 2 * t);
+      const i = (y * width + x) * 4;
+
+      if (amount < 0) {
+        // Highlight protection keeps bright areas such as lights from greying
+        const luminance = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+        const highlight = Math.min(1, Math.max(0, (luminance - 0.6) / 0.4));
+        const factor = 1 + amount * weight * (1 - protect * highlight);
+        data[i] *= factor;
+        data[i + 1] *= factor;
+        data[i + 2] *= factor;
+      } else {
+        const lift = amount * weight;
+        data[i] += (255 - data[i]) * lift;
+        data[i + 1] += (255 - data[i + 1]) * lift;
+        data[i + 2] += (255 - data[i + 2]) * lift;
+      }
+    }
+  }
+}
+
+/**
+ * Add monochrome film grain. The grain is value noise on a lattice sized
+ * relative to the frame's long edge and hashed from the seed, so the same
+ * seed gives the same pattern at any resolution. Where grains are smaller
+ * than a pixel their strength is reduced as if averaged over the pixel.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyGrain(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: GrainSettings
+): void {
+  const amount = (settings.grainAmount || 0) / 100;
+  if (amount === 0 || width === 0 || height === 0) return;
+
+  const longEdge = Math.max(width, height);
+  // Grain cell as a fraction of the long edge: about 0.5-4px on a 3000px image
+  const cell = (0.5 + ((settings.grainSize ?? 25) / 100) * 3.5) / 3000;
+  const cellPixels = cell * longEdge;
+  const roughness = (settings.grainRoughness ?? 50) / 100;
+  const strength = amount * 0.12 * 255 * Math.min(1, cellPixels);
+  const seed = (settings.grainSeed || 0) | 0;
+
+  // Lattice value in [-1, 1] from an integer hash of the cell and seed
+  const lattice = (ix: number, iy: number, octave: number) => {
+    let h = Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1) ^ Math.imul(seed + octave, 0x9e3779b9);
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    h ^= h >>> 16;
+    return (h >>> 0) / 2147483647.5 - 1;
+  };
+
+  const noise = (px: number, py: number, octave: number) => {
+    const ix = Math.floor(px);
+    const iy = Math.floor(py);
+    let fx = px - ix;
+    let fy = py - iy;
+    fx = fx * fx * (3 - 2 * fx);
+    fy = fy * fy * (3 - 2 * fy);
+    const top = lattice(ix, iy, octave) + (lattice(ix + 1, iy, octave) - lattice(ix, iy, octave)) * fx;
+    const bottom = lattice(ix, iy + 1, octave) + (lattice(ix + 1, iy + 1, octave) - lattice(ix, iy + 1, octave)) * fx;
+    return top + (bottom - top) * fy;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const ny = (y + 0.5) / longEdge / cell;
+    for (let x = 0; x < width; x++) {
+      const nx = (x + 0.5) / longEdge / cell;
+
+      // Roughness mixes in a finer octave for a less even texture
+      let n = noise(nx, ny, 0);
+      if (roughness > 0) {
+        n = n * (1 - roughness * 0.5) + noise(nx * 2.3, ny * 2.3, 1) * roughness * 0.7;
+      }
+
+      // Grain shows most in the midtones and least in pure black and white
+      const i = (y * width + x) * 4;
+      const luminance = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+      const offset = n * strength * (0.4 + 2.4 * luminance * (1 - luminance));
+      data[i] += offset;
+      data[i + 1] += offset;
+      data[i + 2] += offset;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import exifr from 'exifr';
+import { copyJpegMetadata, MetadataOptions } from './exif-utils';
+
+// Photo from a Canon S40; its maker note is an IFD whose value offsets
+// are relative to the TIFF header
+const original = new Uint8Array(readFileSync(new URL('./__fixtures__/canon-s40.jpg', import.meta.url)));
+
+const OPTIONS: MetadataOptions = { stripGps: false, resetOrientation: true, software: 'Luma Forge' };
+
+// Offset of the MakerNote value within the TIFF block of the Exif APP1
+function makerNoteOffset(jpeg: Uint8Array): number | undefined {
+  const start = Buffer.from(jpeg).indexOf('Exif\0\0') + 6;
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset + start);
+  const littleEndian = view.getUint16(0) === 0x4949;
+  const findEntry = (ifd: number, tag: number) => {
+    const count = view.getUint16(ifd, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (view.getUint16(entry, littleEndian) === tag) return view.getUint32(entry + 8, littleEndian);
+    }
+    return undefined;
+  };
+  const exifIfd = findEntry(view.getUint32(4, littleEndian), 0x8769);
+  return exifIfd === undefined ? undefined : findEntry(exifIfd, 0x927c);
+}
+
+const readMakerNote = async (jpeg: Uint8Array) =>
+  (await exifr.parse(jpeg, { makerNote: true, mergeOutput: false }))?.makerNote as Uint8Array | undefined;
+
+describe('copyJpegMetadata', () => {
+  it('round-trips the maker note at its original offset', async () => {
+    const exported = copyJpegMetadata(original, original, OPTIONS);
+
+    const makerNote = await readMakerNote(exported);
+    expect(makerNote).toBeDefined();
+    expect(Array.from(makerNote!)).toEqual(Array.from((await readMakerNote(original))!));
+    expect(makerNoteOffset(exported)).toBe(makerNoteOffset(original));
+
+    const parsed = await exifr.parse(exported);
+    expect(parsed.Make).toBe('Canon');
+    expect(parsed.Model).toBe('S40');
+    expect(parsed.Software).toBe('Luma Forge');
+    expect(parsed.Orientation).toBe('Horizontal (normal)');
+  });
+
+  it('keeps the maker note in place when the rewritten tags grow', async () => {
+    const exported = copyJpegMetadata(original, original, { ...OPTIONS, software: 'x'.repeat(2000) });
+
+    expect(makerNoteOffset(exported)).toBe(makerNoteOffset(original));
+    expect(Array.from((await readMakerNote(exported))!)).toEqual(Array.from((await readMakerNote(original))!));
+    expect((await exifr.parse(exported)).Software).toHaveLength(2000);
+  });
+});
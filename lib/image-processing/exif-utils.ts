@@ -0,0 +1,396 @@
+/**
+ * Copy EXIF (and XMP) metadata from an original JPEG into an exported one.
+ *
+ * Canvas encoding drops all metadata, so on export the original APP1
+ * segments are parsed, selectively rewritten and inserted into the new file.
+ * The TIFF structure is rebuilt rather than patched so tags can be removed
+ * or added; the embedded thumbnail (IFD1) is dropped since it would show the
+ * unedited image. Maker notes keep their original offset, since most of them
+ * point into themselves relative to the TIFF header.
+ */
+
+import { dataUrlToBlob } from '@/lib/download-utils';
+
+export interface MetadataOptions {
+  stripGps: boolean;
+  resetOrientation: boolean; // Pixels are already upright after processing
+  software?: string; // Written to the Software tag when set
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Raw value bytes in the file's byte order
+  sourceOffset?: number; // Where the value bytes were in the source TIFF, if not inline
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_SEGMENT_LENGTH = 0xffff - 2;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+const TAG_MAKER_NOTE = 0x927c;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+// Byte size of one value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: number[]) =>
+  prefix.every((b, i) => bytes[offset + i] === b);
+
+/**
+ * Split a JPEG into its header segments (everything before the scan data).
+ * Returns the marker, start offset and payload of each segment.
+ */
+function readJpegSegments(jpeg: Uint8Array) {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const segments: Array<{ marker: number; start: number; end: number; payload: Uint8Array }> = [];
+  let pos = 2;
+  while (pos + 4 <= jpeg.length) {
+    if (jpeg[pos] !== 0xff) throw new Error('Invalid JPEG marker');
+    const marker = jpeg[pos + 1];
+    if (marker === 0xff) {
+      pos++; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+
+    const length = (jpeg[pos + 2] << 8) | jpeg[pos + 3];
+    const end = pos + 2 + length;
+    if (length < 2 || end > jpeg.length) throw new Error('Truncated JPEG segment');
+    segments.push({ marker, start: pos, end, payload: jpeg.subarray(pos + 4, end) });
+    pos = end;
+  }
+  return segments;
+}
+
+function readTiff(tiff: Uint8Array) {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Invalid TIFF byte order');
+  const littleEndian = order === 0x4949;
+
+  const readIfd = (offset: number): IfdEntry[] => {
+    if (offset <= 0 || offset + 2 > tiff.length) return [];
+    const count = view.getUint16(offset, littleEndian);
+    const entries: IfdEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > tiff.length) break;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue; // Unknown type; drop rather than guess
+
+      const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+      if (valueOffset + size > tiff.length) continue;
+      entries.push({
+        tag,
+        type,
+        count: valueCount,
+        data: tiff.slice(valueOffset, valueOffset + size),
+        sourceOffset: size > 4 ? valueOffset : undefined,
+      });
+    }
+    return entries;
+  };
+
+  const getPointer = (entries: IfdEntry[], tag: number) => {
+    const entry = entries.find(e => e.tag === tag);
+    if (!entry || entry.data.length < 4) return 0;
+    return new DataView(entry.data.buffer, entry.data.byteOffset, 4).getUint32(0, littleEndian);
+  };
+
+  const ifd0 = readIfd(view.getUint32(4, littleEndian));
+  const exif = readIfd(getPointer(ifd0, TAG_EXIF_IFD));
+  const gps = readIfd(getPointer(ifd0, TAG_GPS_IFD));
+  const interop = readIfd(getPointer(exif, TAG_INTEROP_IFD));
+
+  return { littleEndian, ifd0, exif, gps, interop };
+}
+
+function writeTiff(
+  littleEndian: boolean,
+  ifds: { ifd0: IfdEntry[]; exif: IfdEntry[]; gps: IfdEntry[]; interop: IfdEntry[] }
+): Uint8Array {
+  const pointerEntry = (tag: number): IfdEntry => ({ tag, type: TYPE_LONG, count: 1, data: new Uint8Array(4) });
+  const withPointer = (entries: IfdEntry[], tag: number, include: boolean) => {
+    const rest = entries.filter(e => e.tag !== tag);
+    return include ? [...rest, pointerEntry(tag)] : rest;
+  };
+
+  // Sub-IFD pointers are recomputed, and entries must be sorted by tag
+  const interop = ifds.interop;
+  const exif = withPointer(ifds.exif, TAG_INTEROP_IFD, interop.length > 0);
+  const gps = ifds.gps;
+  const ifd0 = withPointer(
+    withPointer(ifds.ifd0, TAG_EXIF_IFD, exif.length > 0),
+    TAG_GPS_IFD,
+    gps.length > 0
+  );
+  const blocks = [ifd0, exif, gps, interop].map(entries => [...entries].sort((a, b) => a.tag - b.tag));
+
+  // The maker note keeps its original offset and everything else is laid
+  // out around it, so offsets inside the maker note stay valid
+  const makerNote = exif.find(e => e.tag === TAG_MAKER_NOTE && e.sourceOffset !== undefined);
+  const reservedStart = makerNote?.sourceOffset ?? 0;
+  const reservedEnd = makerNote ? reservedStart + makerNote.data.length : 0;
+  let cursor = 8;
+  const allocate = (size: number) => {
+    let at = cursor;
+    if (at < reservedEnd && at + size > reservedStart) at = reservedEnd + (reservedEnd % 2);
+    cursor = at + size + (size % 2);
+    return at;
+  };
+
+  const offsets: number[] = [];
+  const dataOffsets = new Map<IfdEntry, number>();
+  for (const entries of blocks) {
+    offsets.push(entries.length > 0 ? allocate(2 + entries.length * 12 + 4) : 0);
+    for (const entry of entries) {
+      if (entry === makerNote) dataOffsets.set(entry, reservedStart);
+      else if (entry.data.length > 4) dataOffsets.set(entry, allocate(entry.data.length));
+    }
+  }
+
+  const out = new Uint8Array(Math.max(cursor, reservedEnd));
+  const view = new DataView(out.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, offsets[0], littleEndian);
+
+  const pointerTargets: Record<number, number> = {
+    [TAG_EXIF_IFD]: offsets[1],
+    [TAG_GPS_IFD]: offsets[2],
+    [TAG_INTEROP_IFD]: offsets[3],
+  };
+
+  blocks.forEach((entries, index) => {
+    if (entries.length === 0) return;
+    let pos = offsets[index];
+    view.setUint16(pos, entries.length, littleEndian);
+    pos += 2;
+
+    for (const entry of entries) {
+      view.setUint16(pos, entry.tag, littleEndian);
+      view.setUint16(pos + 2, entry.type, littleEndian);
+      view.setUint32(pos + 4, entry.count, littleEndian);
+
+      const dataOffset = dataOffsets.get(entry);
+      if (entry.tag in pointerTargets && entry.type === TYPE_LONG) {
+        view.setUint32(pos + 8, pointerTargets[entry.tag], littleEndian);
+      } else if (dataOffset === undefined) {
+        out.set(entry.data, pos + 8);
+      } else {
+        view.setUint32(pos + 8, dataOffset, littleEndian);
+        out.set(entry.data, dataOffset);
+      }
+      pos += 12;
+    }
+    view.setUint32(pos, 0, littleEndian); // No next IFD (thumbnail dropped)
+  });
+
+  return out;
+}
+
+const shortEntry = (tag: number, value: number, littleEndian: boolean): IfdEntry => {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, value, littleEndian);
+  return { tag, type: TYPE_SHORT, count: 1, data };
+};
+
+const longEntry = (tag: number, value: number, littleEndian: boolean): IfdEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, value, littleEndian);
+  return { tag, type: TYPE_LONG, count: 1, data };
+};
+
+const asciiEntry = (tag: number, value: string): IfdEntry => {
+  const data = new TextEncoder().encode(`${value}\0`);
+  return { tag, type: TYPE_ASCII, count: data.length, data };
+};
+
+const replaceEntry = (entries: IfdEntry[], entry: IfdEntry) => [
+  ...entries.filter(e => e.tag !== entry.tag),
+  entry,
+];
+
+/**
+ * Rewrite an EXIF TIFF block with the requested changes.
+ */
+function rewriteExif(
+  tiff: Uint8Array,
+  options: MetadataOptions,
+  size: { width: number; height: number } | null,
+  dropMakerNote = false
+): Uint8Array {
+  const { littleEndian, ifd0: sourceIfd0, exif: sourceExif, gps, interop } = readTiff(tiff);
+  let ifd0 = sourceIfd0;
+  let exif = sourceExif;
+
+  if (options.resetOrientation && ifd0.some(e => e.tag === TAG_ORIENTATION)) {
+    ifd0 = replaceEntry(ifd0, shortEntry(TAG_ORIENTATION, 1, littleEndian));
+  }
+  if (options.software) {
+    ifd0 = replaceEntry(ifd0, asciiEntry(TAG_SOFTWARE, options.software));
+  }
+  if (size && exif.length > 0) {
+    exif = replaceEntry(exif, longEntry(TAG_PIXEL_X_DIMENSION, size.width, littleEndian));
+    exif = replaceEntry(exif, longEntry(TAG_PIXEL_Y_DIMENSION, size.height, littleEndian));
+  }
+  if (dropMakerNote) {
+    exif = exif.filter(e => e.tag !== TAG_MAKER_NOTE);
+  }
+
+  return writeTiff(littleEndian, {
+    ifd0,
+    exif,
+    gps: options.stripGps ? [] : gps,
+    interop,
+  });
+}
+
+/**
+ * Apply the same options to an XMP packet. GPS properties are removed and
+ * the orientation reset, whether written as attributes or elements.
+ */
+function rewriteXmp(xmp: string, options: MetadataOptions): string {
+  let result = xmp;
+  if (options.stripGps) {
+    result = result
+      .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+      .replace(/<exif:(GPS\w+)\b[^>]*>[\s\S]*?<\/exif:\1>/g, '')
+      .replace(/<exif:GPS\w+\b[^>]*\/>/g, '');
+  }
+  if (options.resetOrientation) {
+    result = result
+      .replace(/tiff:Orientation="\d+"/g, 'tiff:Orientation="1"')
+      .replace(/<tiff:Orientation>\d+<\/tiff:Orientation>/g, '<tiff:Orientation>1</tiff:Orientation>');
+  }
+  if (options.software) {
+    result = result.replace(/xmp:CreatorTool="[^"]*"/g, `xmp:CreatorTool="${options.software}"`);
+  }
+  return result;
+}
+
+// Frame size from the first start-of-frame marker
+function readJpegSize(segments: ReturnType<typeof readJpegSegments>) {
+  const sof = segments.find(s => s.marker >= 0xc0 && s.marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(s.marker));
+  if (!sof || sof.payload.length < 5) return null;
+  return {
+    height: (sof.payload[1] << 8) | sof.payload[2],
+    width: (sof.payload[3] << 8) | sof.payload[4],
+  };
+}
+
+const createSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(payload.length + 4);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = ((payload.length + 2) >> 8) & 0xff;
+  segment[3] = (payload.length + 2) & 0xff;
+  segment.set(payload, 4);
+  return segment;
+};
+
+/**
+ * Copy EXIF and XMP from the original JPEG into the exported JPEG.
+ * Returns the exported bytes unchanged when the original has no metadata.
+ */
+export function copyJpegMetadata(
+  original: Uint8Array,
+  exported: Uint8Array,
+  options: MetadataOptions
+): Uint8Array {
+  if (original[0] !== 0xff || original[1] !== 0xd8) return exported;
+
+  const originalSegments = readJpegSegments(original);
+  const exportedSegments = readJpegSegments(exported);
+  const size = readJpegSize(exportedSegments);
+  const newSegments: Uint8Array[] = [];
+
+  const exifSegment = originalSegments.find(s => s.marker === 0xe1 && startsWith(s.payload, 0, EXIF_HEADER));
+  if (exifSegment) {
+    const tiff = exifSegment.payload.subarray(EXIF_HEADER.length);
+    let rewritten = rewriteExif(tiff, options, size);
+    // Large maker notes can push the segment over the 64 KB limit
+    if (rewritten.length + EXIF_HEADER.length > MAX_SEGMENT_LENGTH) {
+      rewritten = rewriteExif(tiff, options, size, true);
+    }
+    if (rewritten.length + EXIF_HEADER.length <= MAX_SEGMENT_LENGTH) {
+      const payload = new Uint8Array(EXIF_HEADER.length + rewritten.length);
+      payload.set(EXIF_HEADER);
+      payload.set(rewritten, EXIF_HEADER.length);
+      newSegments.push(createSegment(0xe1, payload));
+    }
+  }
+
+  const xmpHeader = Array.from(new TextEncoder().encode(XMP_HEADER));
+  const xmpSegment = originalSegments.find(s => s.marker === 0xe1 && startsWith(s.payload, 0, xmpHeader));
+  if (xmpSegment) {
+    const packet = new TextDecoder().decode(xmpSegment.payload.subarray(xmpHeader.length));
+    const encoded = new TextEncoder().encode(XMP_HEADER + rewriteXmp(packet, options));
+    if (encoded.length <= MAX_SEGMENT_LENGTH) {
+      newSegments.push(createSegment(0xe1, encoded));
+    }
+  }
+
+  if (newSegments.length === 0) return exported;
+
+  // Insert after SOI and a leading JFIF APP0, dropping any APP1 already present
+  const app0 = exportedSegments[0]?.marker === 0xe0 ? exportedSegments[0] : null;
+  const insertAt = app0 ? app0.end : 2;
+  const skipped = exportedSegments.filter(s => s.marker === 0xe1);
+
+  const parts: Uint8Array[] = [exported.subarray(0, insertAt), ...newSegments];
+  let pos = insertAt;
+  for (const segment of skipped) {
+    parts.push(exported.subarray(pos, segment.start));
+    pos = segment.end;
+  }
+  parts.push(exported.subarray(pos));
+
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Blob wrapper around copyJpegMetadata for the export pipeline. Non-JPEG
+ * exports are returned as-is.
+ */
+export async function copyImageMetadata(
+  originalSrc: string,
+  exported: Blob,
+  options: MetadataOptions
+): Promise<Blob> {
+  if (exported.type !== 'image/jpeg') return exported;
+
+  const [original, output] = await Promise.all([
+    dataUrlToBlob(originalSrc).then(blob => blob.arrayBuffer()),
+    exported.arrayBuffer(),
+  ]);
+  const bytes = copyJpegMetadata(new Uint8Array(original), new Uint8Array(output), options);
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' });
+}
@@ -0,0 +1,295 @@
+/**
+ * Export settings: output formats, resizing, output sharpening and
+ * filename templates shared by the export dialog and the export pipeline.
+ */
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif';
+
+export type ResizeMode = 'none' | 'longEdge' | 'shortEdge' | 'megapixels' | 'percentage';
+
+export type OutputSharpening = 'none' | 'low' | 'standard' | 'high';
+
+export type ExportPresetId = 'original' | 'web' | 'social' | 'archive';
+
+export interface ExportSettings {
+  preset: ExportPresetId | 'custom';
+  format: ExportFormat;
+  quality: number; // 1-100, ignored for PNG
+  resizeMode: ResizeMode;
+  resizeValue: number; // Pixels, megapixels or percent depending on resizeMode
+  sharpening: OutputSharpening;
+  filenameTemplate: string;
+  // Metadata copied from the original (JPEG only)
+  keepMetadata: boolean;
+  stripGps: boolean;
+  resetOrientation: boolean;
+  addSoftwareTag: boolean;
+}
+
+export interface ExportResize {
+  mode: ResizeMode;
+  value: number;
+}
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string; lossy: boolean }> = [
+  { format: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { format: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+  { format: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+  { format: 'image/avif', label: 'AVIF', extension: 'avif', lossy: true },
+];
+
+export const RESIZE_DEFAULTS: Record<ResizeMode, number> = {
+  none: 0,
+  longEdge: 2048,
+  shortEdge: 1080,
+  megapixels: 12,
+  percentage: 50,
+};
+
+export const FILENAME_TOKENS = ['{name}', '{seq}', '{date}', '{preset}'];
+
+const DEFAULT_FILENAME_TEMPLATE = '{name}-edit';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  preset: 'original',
+  format: 'image/jpeg',
+  quality: 97,
+  resizeMode: 'none',
+  resizeValue: 0,
+  sharpening: 'none',
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  keepMetadata: true,
+  stripGps: false,
+  resetOrientation: true,
+  addSoftwareTag: true,
+};
+
+export const EXPORT_PRESETS: Record<
+  ExportPresetId,
+  Pick<ExportSettings, 'format' | 'quality' | 'resizeMode' | 'resizeValue' | 'sharpening'>
+> = {
+  original: {
+    format: 'image/jpeg',
+    quality: 97,
+    resizeMode: 'none',
+    resizeValue: 0,
+    sharpening: 'none',
+  },
+  web: {
+    format: 'image/jpeg',
+    quality: 85,
+    resizeMode: 'longEdge',
+    resizeValue: 2048,
+    sharpening: 'low',
+  },
+  social: {
+    format: 'image/jpeg',
+    quality: 90,
+    resizeMode: 'shortEdge',
+    resizeValue: 1080,
+    sharpening: 'standard',
+  },
+  archive: {
+    format: 'image/png',
+    quality: 100,
+    resizeMode: 'none',
+    resizeValue: 0,
+    sharpening: 'none',
+  },
+};
+
+// Unsharp mask strength for each output sharpening level
+const SHARPENING_AMOUNTS: Record<OutputSharpening, number> = {
+  none: 0,
+  low: 0.3,
+  standard: 0.6,
+  high: 1,
+};
+
+export function getFormatExtension(format: ExportFormat): string {
+  return EXPORT_FORMATS.find(f => f.format === format)?.extension ?? 'jpg';
+}
+
+const formatSupportCache = new Map<ExportFormat, boolean>();
+
+/**
+ * Whether the browser can encode the format from a canvas. Unsupported
+ * formats silently fall back to PNG in toDataURL, so check the result type.
+ */
+export function isFormatSupported(format: ExportFormat): boolean {
+  if (typeof document === 'undefined') return format === 'image/png';
+
+  const cached = formatSupportCache.get(format);
+  if (cached !== undefined) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const supported = canvas.toDataURL(format).startsWith(`data:${format}`);
+  formatSupportCache.set(format, supported);
+  return supported;
+}
+
+/**
+ * Output size for an image of the given size. Images are never enlarged.
+ */
+export function getExportDimensions(width: number, height: number, resize?: ExportResize) {
+  let scale = 1;
+  const value = resize?.value ?? 0;
+
+  if (resize && value > 0) {
+    switch (resize.mode) {
+      case 'longEdge':
+        scale = value / Math.max(width, height);
+        break;
+      case 'shortEdge':
+        scale = value / Math.min(width, height);
+        break;
+      case 'megapixels':
+        scale = Math.sqrt((value * 1_000_000) / (width * height));
+        break;
+      case 'percentage':
+        scale = value / 100;
+        break;
+    }
+  }
+
+  scale = Math.min(1, scale);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Draw the canvas at a new size, halving in steps when shrinking a lot so
+ * the browser's bilinear filter doesn't skip pixels.
+ */
+export function resizeCanvas(source: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement {
+  let current = source;
+
+  while (current.width / 2 >= width && current.height / 2 >= height) {
+    const half = document.createElement('canvas');
+    half.width = Math.round(current.width / 2);
+    half.height = Math.round(current.height / 2);
+    const halfCtx = half.getContext('2d');
+    if (!halfCtx) break;
+    halfCtx.imageSmoothingQuality = 'high';
+    halfCtx.drawImage(current, 0, 0, half.width, half.height);
+    current = half;
+  }
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) return current;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(current, 0, 0, width, height);
+  return output;
+}
+
+/**
+ * Light unsharp mask applied after resizing to restore crispness lost to
+ * downsampling. Uses a 3x3 Gaussian, since it works at output resolution.
+ */
+export function applyOutputSharpening(canvas: HTMLCanvasElement, sharpening: OutputSharpening) {
+  const amount = SHARPENING_AMOUNTS[sharpening];
+  if (amount === 0) return;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return;
+
+  const { width, height } = canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const src = new Uint8ClampedArray(imageData.data);
+  const dst = imageData.data;
+  const kernel = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let blurred = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          const sy = Math.min(height - 1, Math.max(0, y + ky));
+          for (let kx = -1; kx <= 1; kx++) {
+            const sx = Math.min(width - 1, Math.max(0, x + kx));
+            blurred += src[(sy * width + sx) * 4 + c] * kernel[(ky + 1) * 3 + kx + 1];
+          }
+        }
+        blurred /= 16;
+        dst[i + c] = src[i + c] + (src[i + c] - blurred) * amount;
+      }
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Expand a filename template. Supported tokens: {name} (original file name
+ * without extension), {seq} (1-based position in the export), {date}
+ * (YYYY-MM-DD) and {preset} (export preset id).
+ */
+export function formatExportFilename(
+  template: string,
+  values: { name?: string; sequence: number; date: Date; preset: string },
+  extension: string
+): string {
+  const { date } = values;
+  const expanded = (template.trim() || DEFAULT_FILENAME_TEMPLATE)
+    .replace(/\{name\}/g, values.name || 'luma')
+    .replace(/\{seq\}/g, pad(values.sequence, 3))
+    .replace(/\{date\}/g, `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`)
+    .replace(/\{preset\}/g, values.preset);
+
+  // Strip characters that aren't allowed in file names
+  const safe = expanded.replace(/[\\/:*?"<>|]/g, '-').trim() || 'luma';
+  return `${safe}.${extension}`;
+}
+
+/**
+ * Make a filename unique within a set of already used names (e.g. ZIP entries).
+ */
+export function getUniqueFilename(filename: string, used: Set<string>): string {
+  const dot = filename.lastIndexOf('.');
+  const base = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : '';
+
+  let candidate = filename;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${base}-${n}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+const EXPORT_SETTINGS_KEY = 'luma-forge-export-settings';
+
+/**
+ * Last used export settings, kept in localStorage across sessions.
+ */
+export function loadExportSettings(): ExportSettings {
+  if (typeof window === 'undefined') return { ...DEFAULT_EXPORT_SETTINGS };
+
+  try {
+    const stored = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    return stored
+      ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) }
+      : { ...DEFAULT_EXPORT_SETTINGS };
+  } catch (error) {
+    console.error('Failed to load export settings:', error);
+    return { ...DEFAULT_EXPORT_SETTINGS };
+  }
+}
+
+export function saveExportSettings(settings: ExportSettings) {
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save export settings:', error);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Horizon detection for auto-straighten: Sobel edges followed by a Hough
+ * transform restricted to near-horizontal and near-vertical lines.
+ */
+
+/**
+ * Tilt in degrees (clockwise positive, y down) of the strongest straight line
+ * within maxAngle of horizontal or vertical, or null when no line stands out.
+ * Rotating the image by the negated tilt levels the line.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function detectHorizonAngle(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxAngle: number
+): number | null {
+  if (width < 3 || height < 3) return null;
+
+  // Luminance
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  }
+
+  // Sobel gradients, skipping the one pixel border
+  const magnitude = new Float32Array(width * height);
+  const direction = new Float32Array(width * height);
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx =
+        gray[p - width + 1] + 2 * gray[p + 1] + gray[p + width + 1] -
+        gray[p - width - 1] - 2 * gray[p - 1] - gray[p + width - 1];
+      const gy =
+        gray[p + width - 1] + 2 * gray[p + width] + gray[p + width + 1] -
+        gray[p - width - 1] - 2 * gray[p - width] - gray[p - width + 1];
+      magnitude[p] = Math.sqrt(gx * gx + gy * gy);
+      direction[p] = Math.atan2(gy, gx);
+      total += magnitude[p];
+    }
+  }
+
+  // Only strong edges vote; the threshold adapts to overall contrast
+  const threshold = Math.max(40, (total / (width * height)) * 3);
+
+  // Accumulator over line normals: theta near 90° are near-horizontal lines,
+  // theta near 0° are near-vertical ones. Rho is measured from the center.
+  const angleStep = 0.25;
+  const stepsPerSide = Math.round(maxAngle / angleStep);
+  const angleCount = stepsPerSide * 2 + 1;
+  const maxRho = Math.ceil(Math.sqrt(width * width + height * height) / 2);
+  const rhoCount = maxRho * 2 + 1;
+  const accumulator = new Uint32Array(angleCount * 2 * rhoCount);
+  const cosTable = new Float32Array(angleCount * 2);
+  const sinTable = new Float32Array(angleCount * 2);
+  for (let family = 0; family < 2; family++) {
+    for (let a = 0; a < angleCount; a++) {
+      const theta = ((family === 0 ? 90 : 0) + (a - stepsPerSide) * angleStep) * Math.PI / 180;
+      cosTable[family * angleCount + a] = Math.cos(theta);
+      sinTable[family * angleCount + a] = Math.sin(theta);
+    }
+  }
+
+  const tolerance = ((maxAngle + 5) * Math.PI) / 180;
+  const cx = width / 2;
+  const cy = height / 2;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      if (magnitude[p] < threshold) continue;
+
+      // The gradient points along the line normal, so it tells which family
+      // the pixel can belong to
+      let normal = direction[p];
+      if (normal < 0) normal += Math.PI;
+      const family = Math.abs(normal - Math.PI / 2) <= tolerance
+        ? 0
+        : Math.min(normal, Math.PI - normal) <= tolerance ? 1 : -1;
+      if (family < 0) continue;
+
+      const dx = x - cx;
+      const dy = y - cy;
+      for (let a = 0; a < angleCount; a++) {
+        const t = family * angleCount + a;
+        const rho = Math.round(dx * cosTable[t] + dy * sinTable[t]) + maxRho;
+        accumulator[t * rhoCount + rho]++;
+      }
+    }
+  }
+
+  // Strongest line overall
+  let best = 0;
+  let bestIndex = -1;
+  for (let i = 0; i < accumulator.length; i++) {
+    if (accumulator[i] > best) {
+      best = accumulator[i];
+      bestIndex = i;
+    }
+  }
+
+  // Require a line spanning a reasonable part of the image
+  if (bestIndex < 0 || best < Math.min(width, height) * 0.2) return null;
+
+  const t = Math.floor(bestIndex / rhoCount);
+  return ((t % angleCount) - stepsPerSide) * angleStep;
+}
@@ -0,0 +1,110 @@
+/**
+ * Reading image files for import.
+ *
+ * Photos with an EXIF orientation other than 1 (typically phone photos shot
+ * in portrait) are redrawn upright on import, so crop coordinates, preview
+ * generation and export all work on the same bitmap no matter how the
+ * browser treats the orientation tag when decoding.
+ */
+
+import { copyImageMetadata } from './exif-utils';
+
+export function readFileAsDataURL(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (e.target?.result) {
+        resolve(e.target.result as string);
+      } else {
+        reject(new Error('Failed to read file'));
+      }
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+
+async function normalizeOrientation(file: File, dataUrl: string): Promise<string> {
+  const exifr = await import('exifr');
+  const orientation = await exifr.orientation(file).catch(() => undefined);
+  if (!orientation || orientation === 1) return dataUrl;
+
+  // Decode with the orientation applied explicitly, then bake it into the pixels
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    return dataUrl;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // JPEGs are re-encoded at full quality and keep their metadata, with the
+  // orientation reset so it isn't applied twice; anything else becomes PNG
+  if (file.type !== 'image/jpeg') {
+    return canvas.toDataURL('image/png');
+  }
+  const upright = await canvasToBlob(canvas, 'image/jpeg', 1);
+  try {
+    const withMetadata = await copyImageMetadata(dataUrl, upright, {
+      stripGps: false,
+      resetOrientation: true,
+    });
+    return readFileAsDataURL(withMetadata);
+  } catch (error) {
+    // The pixels are already upright, so losing the metadata beats
+    // falling back to the rotated original
+    console.error(`Failed to copy metadata of ${file.name}`, error);
+    return readFileAsDataURL(upright);
+  }
+}
+
+/**
+ * Read an image file as a data URL with its EXIF orientation applied.
+ * Falls back to the file as-is when the orientation can't be normalized.
+ */
+export async function readImageFile(file: File): Promise<string> {
+  const dataUrl = await readFileAsDataURL(file);
+  try {
+    return await normalizeOrientation(file, dataUrl);
+  } catch (error) {
+    console.error(`Failed to normalize orientation of ${file.name}`, error);
+    return dataUrl;
+  }
+}
+
+/**
+ * Read several image files in parallel, keeping the order they were given
+ * in. Files that can't be read are logged and returned separately so the
+ * caller can report them.
+ */
+export async function readImageFiles(
+  files: File[]
+): Promise<{ images: Array<{ file: File; src: string }>; failed: File[] }> {
+  const results = await Promise.all(
+    files.map(async (file) => {
+      try {
+        return { file, src: await readImageFile(file) };
+      } catch (error) {
+        console.error(`Failed to read ${file.name}`, error);
+        return { file, src: null };
+      }
+    })
+  );
+  return {
+    images: results.flatMap(({ file, src }) => (src === null ? [] : [{ file, src }])),
+    failed: results.filter(({ src }) => src === null).map(({ file }) => file),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Lens corrections applied to the source before any other geometry: radial
+ * distortion, vignetting and lateral chromatic aberration, all measured from
+ * the image center so they work the same at preview and full resolution.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+import { Resampling, sampleImage } from './perspective';
+
+export type LensCorrection = Pick<
+  ImageAdjustments,
+  'lensDistortion' | 'lensVignette' | 'lensCaRed' | 'lensCaBlue'
+>;
+
+// Radial coefficient at a distortion slider value of 100, with the radius
+// normalized to half the image diagonal
+const MAX_DISTORTION = 0.3;
+// Brightness gain in the corners at a vignette slider value of 100
+const MAX_VIGNETTE = 1;
+// Scale of the red or blue channel relative to green at a fringe slider
+// value of 100 (about 7px in the corners of a 24MP image)
+const MAX_CHROMATIC_SCALE = 0.002;
+
+export function hasLensCorrection(lens: LensCorrection): boolean {
+  return !!(lens.lensDistortion || lens.lensVignette || lens.lensCaRed || lens.lensCaBlue);
+}
+
+/**
+ * Correct image data for the lens. Positive distortion removes barrel
+ * distortion and negative removes pincushion; the result is scaled so no
+ * empty border appears. Positive vignette brightens the corners. The fringe
+ * values scale the red and blue channels against green to line up colored
+ * edges.
+ */
+export function correctLens(
+  imageData: ImageData,
+  lens: LensCorrection,
+  resampling: Resampling
+): ImageData {
+  const { width, height, data: src } = imageData;
+  const output = new ImageData(width, height);
+  const dst = output.data;
+  const sample = new Float64Array(4);
+
+  const k = -((lens.lensDistortion || 0) / 100) * MAX_DISTORTION;
+  // Pincushion correction samples beyond the corners, so zoom in to compensate
+  const scale = 1 / (1 + Math.max(0, k));
+  const vignette = ((lens.lensVignette || 0) / 100) * MAX_VIGNETTE;
+  const redScale = 1 + ((lens.lensCaRed || 0) / 100) * MAX_CHROMATIC_SCALE;
+  const blueScale = 1 + ((lens.lensCaBlue || 0) / 100) * MAX_CHROMATIC_SCALE;
+  const hasFringe = redScale !== 1 || blueScale !== 1;
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const radiusSquared = cx * cx + cy * cy;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Offsets of the pixel center from the image center
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      const r2 = (dx * dx + dy * dy) / radiusSquared;
+      const factor = scale * (1 + k * r2);
+      const i = (y * width + x) * 4;
+
+      if (!sampleImage(src, width, height, cx + dx * factor, cy + dy * factor, resampling, sample)) continue;
+      let red = sample[0];
+      const green = sample[1];
+      let blue = sample[2];
+      const alpha = sample[3];
+
+      if (hasFringe) {
+        if (sampleImage(src, width, height, cx + dx * factor * redScale, cy + dy * factor * redScale, resampling, sample)) {
+          red = sample[0];
+        }
+        if (sampleImage(src, width, height, cx + dx * factor * blueScale, cy + dy * factor * blueScale, resampling, sample)) {
+          blue = sample[2];
+        }
+      }
+
+      // Falloff follows the distance in the corrected image
+      const gain = 1 + vignette * r2;
+      dst[i] = red * gain;
+      dst[i + 1] = green * gain;
+      dst[i + 2] = blue * gain;
+      dst[i + 3] = alpha;
+    }
+  }
+  return output;
+}
+
+export interface LensInfo {
+  make?: string;
+  model?: string;
+  focalLength?: number; // Millimeters
+  focalLength35mm?: number; // 35mm equivalent, when the camera records it
+}
+
+/**
+ * Read the lens and focal length from an image's EXIF, or null when it has
+ * none.
+ */
+export async function readLensInfo(imageSrc: string): Promise<LensInfo | null> {
+  const exifr = await import('exifr');
+  const exif = await exifr.parse(imageSrc, {
+    pick: ['LensMake', 'LensModel', 'FocalLength', 'FocalLengthIn35mmFormat'],
+  });
+  if (!exif || (!exif.FocalLength && !exif.LensModel)) return null;
+
+  return {
+    make: exif.LensMake,
+    model: exif.LensModel,
+    focalLength: exif.FocalLength,
+    focalLength35mm: exif.FocalLengthIn35mmFormat,
+  };
+}
+
+/**
+ * Starting point for the lens sliders based on the focal length alone: wide
+ * angles usually show barrel distortion and stronger vignetting, long lenses
+ * mild pincushion. Fringing depends on the lens itself, so it is left alone.
+ * Returns null when the focal length isn't known.
+ */
+export function estimateLensCorrection(info: LensInfo): Partial<LensCorrection> | null {
+  const focal = info.focalLength35mm || info.focalLength;
+  if (!focal) return null;
+
+  const distortion = focal <= 50
+    ? Math.min(30, ((50 - focal) / 34) * 30) // +30 at 16mm, none at 50mm
+    : -Math.min(10, ((focal - 50) / 150) * 10); // Up to -10 at 200mm
+  const vignette = focal <= 50
+    ? 10 + Math.min(30, ((50 - focal) / 34) * 30)
+    : 10;
+
+  return {
+    lensDistortion: Math.round(distortion),
+    lensVignette: Math.round(vignette),
+  };
+}
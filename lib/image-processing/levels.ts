@@ -0,0 +1,42 @@
+/**
+ * Levels: input black/white points and gamma, then the output range.
+ */
+
+import type { LevelsAdjustment } from '@/lib/store';
+
+export const MIN_LEVELS_GAMMA = 0.1;
+export const MAX_LEVELS_GAMMA = 9.99;
+
+/**
+ * Build a function mapping a 0-1 value through a channel's levels.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function createLevelsEvaluator(levels: LevelsAdjustment | undefined): (x: number) => number {
+  if (!levels) return (x) => x;
+
+  const inputBlack = levels.inputBlack / 255;
+  const inputRange = Math.max(1, levels.inputWhite - levels.inputBlack) / 255;
+  const inverseGamma = 1 / Math.max(0.01, levels.gamma);
+  const outputBlack = levels.outputBlack / 255;
+  const outputRange = (levels.outputWhite - levels.outputBlack) / 255;
+
+  return (x) => {
+    const t = Math.min(1, Math.max(0, (x - inputBlack) / inputRange));
+    return outputBlack + Math.pow(t, inverseGamma) * outputRange;
+  };
+}
+
+/**
+ * Position (0-1 between the input black and white points) of the gamma
+ * handle: the input that maps to the middle of the output range.
+ */
+export function gammaToMidpoint(gamma: number): number {
+  return Math.pow(0.5, gamma);
+}
+
+export function midpointToGamma(midpoint: number): number {
+  const clamped = Math.min(0.99, Math.max(0.01, midpoint));
+  const gamma = Math.log(clamped) / Math.log(0.5);
+  return Math.min(MAX_LEVELS_GAMMA, Math.max(MIN_LEVELS_GAMMA, Math.round(gamma * 100) / 100));
+}
@@ -0,0 +1,185 @@
+/**
+ * Local contrast adjustments: clarity, texture and dehaze. Every radius is a
+ * fraction of the frame's long edge, so the preview and the full-resolution
+ * export look the same.
+ *
+ * Both functions take the worker's copy of blurPlane (see ./blur) as a
+ * parameter, since each function is serialized into the worker source on
+ * its own.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+
+export type LocalContrastSettings = Pick<ImageAdjustments, 'clarity' | 'texture'>;
+
+/**
+ * Clarity boosts (or softens, when negative) large-scale contrast in the
+ * midtones; texture does the same for fine detail across all tones.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyLocalContrast(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: LocalContrastSettings,
+  blur: (plane: Float32Array, width: number, height: number, sigma: number) => void
+): void {
+  const clarity = (settings.clarity || 0) / 100;
+  const texture = (settings.texture || 0) / 100;
+  if ((clarity === 0 && texture === 0) || width === 0 || height === 0) return;
+
+  // Blur sigmas as fractions of the long edge
+  const longEdge = Math.max(width, height);
+  const clarityRadius = 0.015 * longEdge;
+  const textureRadius = 0.0025 * longEdge;
+  const size = width * height;
+  const luminance = new Float32Array(size);
+  for (let p = 0, i = 0; p < size; p++, i += 4) {
+    luminance[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  }
+
+  let coarse: Float32Array | null = null;
+  if (clarity !== 0) {
+    coarse = new Float32Array(luminance);
+    blur(coarse, width, height, clarityRadius);
+  }
+  let fine: Float32Array | null = null;
+  if (texture !== 0) {
+    fine = new Float32Array(luminance);
+    blur(fine, width, height, textureRadius);
+  }
+
+  for (let p = 0, i = 0; p < size; p++, i += 4) {
+    const l = luminance[p];
+    let delta = 0;
+
+    if (coarse) {
+      // Parabolic midtone weight keeps shadows and highlights from clipping
+      const m = (l / 255) * 2 - 1;
+      delta += (l - coarse[p]) * clarity * (1 - m * m);
+    }
+    if (fine) {
+      delta += (l - fine[p]) * texture;
+    }
+
+    data[i] += delta;
+    data[i + 1] += delta;
+    data[i + 2] += delta;
+  }
+}
+
+/**
+ * Remove (positive amount) or add (negative amount) haze using the dark
+ * channel prior: the haze transmission is estimated on a downsized copy,
+ * smoothed, then applied at full resolution.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyDehaze(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  amount: number,
+  blur: (plane: Float32Array, width: number, height: number, sigma: number) => void
+): void {
+  const strength = amount / 100;
+  if (strength === 0 || width === 0 || height === 0) return;
+
+  // Analysis grid of at most 512px on the long edge, independent of resolution
+  const block = Math.max(1, Math.ceil(Math.max(width, height) / 512));
+  const gridWidth = Math.ceil(width / block);
+  const gridHeight = Math.ceil(height / block);
+  const gridSize = gridWidth * gridHeight;
+
+  // Per block: darkest channel value and average color
+  const blockMin = new Float32Array(gridSize).fill(255);
+  const blockColor = new Float32Array(gridSize * 3);
+  const blockCount = new Uint32Array(gridSize);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / block) * gridWidth;
+    for (let x = 0; x < width; x++) {
+      const g = row + Math.floor(x / block);
+      const i = (y * width + x) * 4;
+      const darkest = Math.min(data[i], data[i + 1], data[i + 2]);
+      if (darkest < blockMin[g]) blockMin[g] = darkest;
+      blockColor[g * 3] += data[i];
+      blockColor[g * 3 + 1] += data[i + 1];
+      blockColor[g * 3 + 2] += data[i + 2];
+      blockCount[g]++;
+    }
+  }
+
+  // Atmospheric light: average color of the haziest 0.1% of blocks
+  const order = Array.from(blockMin.keys()).sort((a, b) => blockMin[b] - blockMin[a]);
+  const brightest = Math.max(1, Math.round(gridSize * 0.001));
+  const atmosphere = [0, 0, 0];
+  for (let k = 0; k < brightest; k++) {
+    const g = order[k];
+    for (let c = 0; c < 3; c++) atmosphere[c] += blockColor[g * 3 + c] / blockCount[g] / brightest;
+  }
+  for (let c = 0; c < 3; c++) atmosphere[c] = Math.max(1, atmosphere[c]);
+
+  // Dark channel of the image normalized by the atmospheric light
+  const dark = new Float32Array(gridSize).fill(1);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / block) * gridWidth;
+    for (let x = 0; x < width; x++) {
+      const g = row + Math.floor(x / block);
+      const i = (y * width + x) * 4;
+      const value = Math.min(data[i] / atmosphere[0], data[i + 1] / atmosphere[1], data[i + 2] / atmosphere[2]);
+      if (value < dark[g]) dark[g] = value;
+    }
+  }
+
+  // Minimum over a patch around each block, separably
+  const patch = Math.max(1, Math.round(Math.max(gridWidth, gridHeight) * 0.01));
+  const eroded = new Float32Array(gridSize);
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      let value = 1;
+      for (let k = Math.max(0, x - patch); k <= Math.min(gridWidth - 1, x + patch); k++) {
+        value = Math.min(value, dark[y * gridWidth + k]);
+      }
+      eroded[y * gridWidth + x] = value;
+    }
+  }
+  const transmission = new Float32Array(gridSize);
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      let value = 1;
+      for (let k = Math.max(0, y - patch); k <= Math.min(gridHeight - 1, y + patch); k++) {
+        value = Math.min(value, eroded[k * gridWidth + x]);
+      }
+      // Keep a little haze so distant areas still read as distant
+      transmission[y * gridWidth + x] = 1 - 0.95 * value;
+    }
+  }
+  blur(transmission, gridWidth, gridHeight, patch * 2);
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(gridHeight - 1, Math.max(0, (y + 0.5) / block - 0.5));
+    const y0 = Math.floor(gy);
+    const y1 = Math.min(gridHeight - 1, y0 + 1);
+    const ty = gy - y0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(gridWidth - 1, Math.max(0, (x + 0.5) / block - 0.5));
+      const x0 = Math.floor(gx);
+      const x1 = Math.min(gridWidth - 1, x0 + 1);
+      const tx = gx - x0;
+      const top = transmission[y0 * gridWidth + x0] * (1 - tx) + transmission[y0 * gridWidth + x1] * tx;
+      const bottom = transmission[y1 * gridWidth + x0] * (1 - tx) + transmission[y1 * gridWidth + x1] * tx;
+      const t = top * (1 - ty) + bottom * ty;
+
+      // Removal scales the estimated haze by the amount; adding haze blends
+      // towards the atmospheric light everywhere, more where it's already hazy
+      const effective = strength > 0
+        ? Math.max(0.1, 1 - strength * (1 - t))
+        : 1 / (1 + strength * (0.3 + 0.4 * (1 - t)));
+      const i = (y * width + x) * 4;
+      data[i] = (data[i] - atmosphere[0]) / effective + atmosphere[0];
+      data[i + 1] = (data[i + 1] - atmosphere[1]) / effective + atmosphere[1];
+      data[i + 2] = (data[i + 2] - atmosphere[2]) / effective + atmosphere[2];
+    }
+  }
+}
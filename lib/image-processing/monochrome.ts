@@ -0,0 +1,158 @@
+/**
+ * Black & white conversion and split toning. The gray mix works like color
+ * filters on film: each hue band can be brightened or darkened before the
+ * image loses its color, then highlights and shadows can be tinted.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+import type { HueOffset } from './color-grading';
+
+export type BlackWhiteMixKey =
+  | 'bwRed'
+  | 'bwOrange'
+  | 'bwYellow'
+  | 'bwGreen'
+  | 'bwAqua'
+  | 'bwBlue'
+  | 'bwPurple'
+  | 'bwMagenta';
+
+export type BlackWhiteMix = Pick<ImageAdjustments, BlackWhiteMixKey>;
+
+export type MonochromeSettings = Pick<
+  ImageAdjustments,
+  | 'monochrome'
+  | BlackWhiteMixKey
+  | 'toneHighlightHue'
+  | 'toneHighlightSaturation'
+  | 'toneShadowHue'
+  | 'toneShadowSaturation'
+  | 'toneBalance'
+>;
+
+// Same order as the HSL mixer bands
+export const BLACK_WHITE_MIX_KEYS: BlackWhiteMixKey[] = [
+  'bwRed',
+  'bwOrange',
+  'bwYellow',
+  'bwGreen',
+  'bwAqua',
+  'bwBlue',
+  'bwPurple',
+  'bwMagenta',
+];
+
+export type BlackWhitePreset = 'neutral' | 'redFilter' | 'yellowFilter' | 'infrared';
+
+// Gray mixes imitating filters used with black & white film
+export const BLACK_WHITE_PRESETS: Record<BlackWhitePreset, BlackWhiteMix> = {
+  neutral: {
+    bwRed: 0, bwOrange: 0, bwYellow: 0, bwGreen: 0, bwAqua: 0, bwBlue: 0, bwPurple: 0, bwMagenta: 0,
+  },
+  // Darkens blue skies for dramatic clouds
+  redFilter: {
+    bwRed: 60, bwOrange: 45, bwYellow: 20, bwGreen: -30, bwAqua: -50, bwBlue: -70, bwPurple: -40, bwMagenta: 20,
+  },
+  // A gentler sky darkening that keeps skin natural
+  yellowFilter: {
+    bwRed: 10, bwOrange: 25, bwYellow: 40, bwGreen: 10, bwAqua: -20, bwBlue: -35, bwPurple: -20, bwMagenta: 0,
+  },
+  // Glowing foliage and near-black skies
+  infrared: {
+    bwRed: -20, bwOrange: 10, bwYellow: 80, bwGreen: 100, bwAqua: -40, bwBlue: -100, bwPurple: -60, bwMagenta: -30,
+  },
+};
+
+/**
+ * Convert to black & white through the gray mix when monochrome is on, then
+ * apply split toning (to color or black & white; with monochrome on it gives
+ * a duotone). Toning shifts the color without changing its luminance; it
+ * takes the worker's copy of hueOffset (see ./color-grading).
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyMonochrome(
+  data: Uint8ClampedArray,
+  settings: MonochromeSettings,
+  toHueOffset: HueOffset
+): void {
+  const highlightSaturation = (settings.toneHighlightSaturation || 0) / 100;
+  const shadowSaturation = (settings.toneShadowSaturation || 0) / 100;
+  if (!settings.monochrome && highlightSaturation === 0 && shadowSaturation === 0) return;
+
+  // Gray mix weight (-1 to 1) for every hue, blending neighbouring bands
+  // with a smoothstep like the HSL mixer does
+  const bands: [number, number][] = [
+    [0, settings.bwRed || 0],
+    [30, settings.bwOrange || 0],
+    [60, settings.bwYellow || 0],
+    [120, settings.bwGreen || 0],
+    [180, settings.bwAqua || 0],
+    [240, settings.bwBlue || 0],
+    [270, settings.bwPurple || 0],
+    [300, settings.bwMagenta || 0],
+  ];
+  const mix = new Float32Array(360);
+  for (let h = 0; h < 360; h++) {
+    let k = bands.length - 1;
+    for (let j = 0; j < bands.length; j++) {
+      if (bands[j][0] <= h) k = j;
+    }
+    const next = (k + 1) % bands.length;
+    const start = bands[k][0];
+    let end = bands[next][0];
+    if (end <= start) end += 360;
+    const t = (h - start) / (end - start);
+    const w = t * t * (3 - 2 * t);
+    mix[h] = ((1 - w) * bands[k][1] + w * bands[next][1]) / 100;
+  }
+
+  // 100% saturation moves a midtone about 40% of the way to the hue
+  const toneOffset = (hue: number, saturation: number) =>
+    toHueOffset(hue).map((c) => c * saturation * 0.4 * 255);
+  const highlightTone = toneOffset(settings.toneHighlightHue || 0, highlightSaturation);
+  const shadowTone = toneOffset(settings.toneShadowHue || 0, shadowSaturation);
+  const toning = highlightSaturation > 0 || shadowSaturation > 0;
+  // Positive balance moves the split down so highlights toning covers more
+  const pivot = 0.5 - ((settings.toneBalance || 0) / 100) * 0.4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    let luma = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    if (settings.monochrome) {
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const chroma = (max - min) / 255;
+      if (chroma > 0) {
+        let hue: number;
+        if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+        else if (max === g) hue = (b - r) / (max - min) + 2;
+        else hue = (r - g) / (max - min) + 4;
+        // +/-100 on a fully saturated color is +/-1.5 stops
+        luma *= Math.pow(2, mix[Math.floor(hue * 60) % 360] * chroma * 1.5);
+      }
+      r = luma;
+      g = luma;
+      b = luma;
+    }
+
+    if (toning) {
+      const l = Math.min(1, Math.max(0, luma / 255));
+      // Fade the tint out towards pure black and white
+      const strength = Math.sqrt(4 * l * (1 - l));
+      const s = Math.min(1, Math.max(0, l - pivot + 0.5));
+      const highlightWeight = s * s * (3 - 2 * s) * strength;
+      const shadowWeight = strength - highlightWeight;
+      r += highlightTone[0] * highlightWeight + shadowTone[0] * shadowWeight;
+      g += highlightTone[1] * highlightWeight + shadowTone[1] * shadowWeight;
+      b += highlightTone[2] * highlightWeight + shadowTone[2] * shadowWeight;
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
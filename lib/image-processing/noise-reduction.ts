@@ -0,0 +1,202 @@
+/**
+ * Noise reduction for high-ISO photos. Luminance noise is smoothed with an
+ * edge-preserving bilateral filter; color noise is removed on a downscaled
+ * chroma plane, where the blotches it forms are only a few pixels wide.
+ */
+
+import type { ImageAdjustments } from '@/lib/store';
+
+export type NoiseReductionSettings = Pick<ImageAdjustments, 'noiseReduction' | 'colorNoiseReduction'>;
+
+/**
+ * Reduce luminance and color noise in place, reporting progress (0-1) as it
+ * goes since this can take a while on full-resolution images.
+ *
+ * Embedded in the worker source (see worker-loader).
+ */
+export function applyNoiseReduction(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: NoiseReductionSettings,
+  onProgress: (progress: number) => void
+): void {
+  const luminanceAmount = (settings.noiseReduction || 0) / 100;
+  const colorAmount = (settings.colorNoiseReduction || 0) / 100;
+  if ((luminanceAmount === 0 && colorAmount === 0) || width === 0 || height === 0) return;
+
+  const size = width * height;
+  const longEdge = Math.max(width, height);
+
+  // Stages are weighted by their share of the work; only report every 2%
+  const stageCount = (luminanceAmount > 0 ? 2 : 0) + (colorAmount > 0 ? 1 : 0) + 1;
+  let stage = 0;
+  let lastReported = 0;
+  const report = (stageFraction: number) => {
+    const progress = (stage + stageFraction) / stageCount;
+    if (progress - lastReported >= 0.02 || progress === 1) {
+      lastReported = progress;
+      onProgress(progress);
+    }
+  };
+
+  // YCbCr planes (full range, chroma centered on 0)
+  const luma = new Float32Array(size);
+  const cb = new Float32Array(size);
+  const cr = new Float32Array(size);
+  for (let p = 0, i = 0; p < size; p++, i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    luma[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+    cb[p] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    cr[p] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  if (luminanceAmount > 0) {
+    // Separable bilateral: a horizontal then a vertical pass. The spatial
+    // radius follows the frame size; the range sigma sets how much contrast
+    // counts as noise rather than detail.
+    const spatialSigma = Math.max(0.8, 0.0008 * longEdge);
+    const radius = Math.ceil(spatialSigma * 2);
+    const spatial = new Float32Array(radius * 2 + 1);
+    for (let k = -radius; k <= radius; k++) {
+      spatial[k + radius] = Math.exp(-(k * k) / (2 * spatialSigma * spatialSigma));
+    }
+    const rangeSigma = luminanceAmount * 20;
+    const range = new Float32Array(256);
+    for (let d = 0; d < 256; d++) {
+      range[d] = Math.exp(-(d * d) / (2 * rangeSigma * rangeSigma));
+    }
+
+    const line = new Float32Array(Math.max(width, height));
+    const filterLine = (offset: number, stride: number, count: number) => {
+      for (let i = 0; i < count; i++) line[i] = luma[offset + i * stride];
+      for (let i = 0; i < count; i++) {
+        const center = line[i];
+        let sum = 0;
+        let weights = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const j = i + k;
+          if (j < 0 || j >= count) continue;
+          const w = spatial[k + radius] * range[Math.min(255, Math.round(Math.abs(line[j] - center)))];
+          sum += line[j] * w;
+          weights += w;
+        }
+        luma[offset + i * stride] = sum / weights;
+      }
+    };
+
+    for (let y = 0; y < height; y++) {
+      filterLine(y * width, 1, width);
+      if ((y & 63) === 0) report(y / height);
+    }
+    stage++;
+    for (let x = 0; x < width; x++) {
+      filterLine(x, width, height);
+      if ((x & 63) === 0) report(x / width);
+    }
+    stage++;
+  }
+
+  if (colorAmount > 0) {
+    // Block averages on a grid of about 768px on the long edge
+    const block = Math.max(1, Math.round(longEdge / 768));
+    const gridWidth = Math.ceil(width / block);
+    const gridHeight = Math.ceil(height / block);
+    const gridSize = gridWidth * gridHeight;
+    const gridLuma = new Float32Array(gridSize);
+    const gridCb = new Float32Array(gridSize);
+    const gridCr = new Float32Array(gridSize);
+    const gridCount = new Float32Array(gridSize);
+    for (let y = 0; y < height; y++) {
+      const row = Math.floor(y / block) * gridWidth;
+      for (let x = 0; x < width; x++) {
+        const g = row + Math.floor(x / block);
+        const p = y * width + x;
+        gridLuma[g] += luma[p];
+        gridCb[g] += cb[p];
+        gridCr[g] += cr[p];
+        gridCount[g]++;
+      }
+    }
+    for (let g = 0; g < gridSize; g++) {
+      gridLuma[g] /= gridCount[g];
+      gridCb[g] /= gridCount[g];
+      gridCr[g] /= gridCount[g];
+    }
+
+    // Cross bilateral on the grid: neighbours count when their color is
+    // close, and stop counting across luminance edges so colors don't bleed
+    const radius = 4;
+    const spatialSigma = 2;
+    const chromaSigma = 1 + colorAmount * 25;
+    const lumaSigma = 20;
+    const filteredCb = new Float32Array(gridSize);
+    const filteredCr = new Float32Array(gridSize);
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        const g = y * gridWidth + x;
+        let sumCb = 0;
+        let sumCr = 0;
+        let weights = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+          const ny = y + dy;
+          if (ny < 0 || ny >= gridHeight) continue;
+          for (let dx = -radius; dx <= radius; dx++) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= gridWidth) continue;
+            const n = ny * gridWidth + nx;
+            const dCb = gridCb[n] - gridCb[g];
+            const dCr = gridCr[n] - gridCr[g];
+            const dL = gridLuma[n] - gridLuma[g];
+            const w = Math.exp(
+              -(dx * dx + dy * dy) / (2 * spatialSigma * spatialSigma)
+              - (dCb * dCb + dCr * dCr) / (2 * chromaSigma * chromaSigma)
+              - (dL * dL) / (2 * lumaSigma * lumaSigma)
+            );
+            sumCb += gridCb[n] * w;
+            sumCr += gridCr[n] * w;
+            weights += w;
+          }
+        }
+        filteredCb[g] = sumCb / weights;
+        filteredCr[g] = sumCr / weights;
+      }
+      if ((y & 15) === 0) report(y / gridHeight);
+    }
+    stage++;
+
+    // Replace the chroma with the filtered grid, keeping a share of the
+    // original fine chroma detail at lower amounts
+    const keep = 1 - colorAmount;
+    const sample = (plane: Float32Array, gx: number, gy: number) => {
+      const x0 = Math.floor(gx);
+      const y0 = Math.floor(gy);
+      const x1 = Math.min(gridWidth - 1, x0 + 1);
+      const y1 = Math.min(gridHeight - 1, y0 + 1);
+      const tx = gx - x0;
+      const ty = gy - y0;
+      const top = plane[y0 * gridWidth + x0] * (1 - tx) + plane[y0 * gridWidth + x1] * tx;
+      const bottom = plane[y1 * gridWidth + x0] * (1 - tx) + plane[y1 * gridWidth + x1] * tx;
+      return top * (1 - ty) + bottom * ty;
+    };
+    for (let y = 0; y < height; y++) {
+      const gy = Math.min(gridHeight - 1, Math.max(0, (y + 0.5) / block - 0.5));
+      for (let x = 0; x < width; x++) {
+        const gx = Math.min(gridWidth - 1, Math.max(0, (x + 0.5) / block - 0.5));
+        const p = y * width + x;
+        cb[p] = sample(filteredCb, gx, gy) + (cb[p] - sample(gridCb, gx, gy)) * keep;
+        cr[p] = sample(filteredCr, gx, gy) + (cr[p] - sample(gridCr, gx, gy)) * keep;
+      }
+    }
+  }
+
+  for (let p = 0, i = 0; p < size; p++, i += 4) {
+    data[i] = luma[p] + 1.402 * cr[p];
+    data[i + 1] = luma[p] - 0.344136 * cb[p] - 0.714136 * cr[p];
+    data[i + 2] = luma[p] + 1.772 * cb[p];
+    if ((p & 0xfffff) === 0) report(p / size);
+  }
+  report(1);
+}
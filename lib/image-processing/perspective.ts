@@ -0,0 +1,238 @@
+/**
+ * Perspective (keystone) correction: homographies for the crop's perspective
+ * sliders or guided corners, and a resampling warp for image data.
+ */
+
+import type { CropState, Point } from '@/lib/store';
+
+export type Resampling = 'bilinear' | 'bicubic';
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// 3x3 matrix in row-major order
+export type Homography = number[];
+
+// Inset of the narrowed edge, as a fraction of the image size per side, at
+// a slider value of 100
+const MAX_KEYSTONE_INSET = 0.2;
+
+/**
+ * Homography mapping the four `from` points onto the four `to` points.
+ */
+export function computeHomography(from: Quad, to: Quad): Homography {
+  // Solve the 8x8 linear system with h8 = 1 by Gaussian elimination
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) throw new Error('Degenerate perspective quad');
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
+
+export function hasPerspective(crop: CropState): boolean {
+  return crop.perspectiveCorners !== null
+    || crop.perspectiveVertical !== 0
+    || crop.perspectiveHorizontal !== 0;
+}
+
+/**
+ * Source quad and the rectangle it should become, in pixels of a width x
+ * height image. Slider corrections narrow one edge of the source so the
+ * result fills the whole frame; guided corners are mapped onto a rectangle
+ * of about the same size, leaving the rest of the image around it.
+ */
+export function getPerspectiveQuads(
+  crop: CropState,
+  width: number,
+  height: number
+): { source: Quad; target: Quad } | null {
+  if (!hasPerspective(crop)) return null;
+
+  if (crop.perspectiveCorners) {
+    const source = crop.perspectiveCorners.map(p => ({ x: p.x * width, y: p.y * height })) as Quad;
+    const [tl, tr, br, bl] = source;
+    const cx = (tl.x + tr.x + br.x + bl.x) / 4;
+    const cy = (tl.y + tr.y + br.y + bl.y) / 4;
+    const halfWidth = (Math.hypot(tr.x - tl.x, tr.y - tl.y) + Math.hypot(br.x - bl.x, br.y - bl.y)) / 4;
+    const halfHeight = (Math.hypot(bl.x - tl.x, bl.y - tl.y) + Math.hypot(br.x - tr.x, br.y - tr.y)) / 4;
+    return {
+      source,
+      target: [
+        { x: cx - halfWidth, y: cy - halfHeight },
+        { x: cx + halfWidth, y: cy - halfHeight },
+        { x: cx + halfWidth, y: cy + halfHeight },
+        { x: cx - halfWidth, y: cy + halfHeight },
+      ],
+    };
+  }
+
+  // Positive vertical widens the top (converging verticals), positive
+  // horizontal widens the left side
+  const vertical = (crop.perspectiveVertical / 100) * MAX_KEYSTONE_INSET;
+  const horizontal = (crop.perspectiveHorizontal / 100) * MAX_KEYSTONE_INSET;
+  const top = Math.max(0, vertical) * width;
+  const bottom = Math.max(0, -vertical) * width;
+  const left = Math.max(0, horizontal) * height;
+  const right = Math.max(0, -horizontal) * height;
+
+  return {
+    source: [
+      { x: top, y: left },
+      { x: width - top, y: right },
+      { x: width - bottom, y: height - right },
+      { x: bottom, y: height - left },
+    ],
+    target: [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ],
+  };
+}
+
+// Scratch tap weights, reused across samples
+const cubicWeightsX = new Float64Array(4);
+const cubicWeightsY = new Float64Array(4);
+
+// Catmull-Rom weights for the four taps around a sample
+const cubicWeights = (t: number, out: Float64Array) => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  out[0] = -0.5 * t3 + t2 - 0.5 * t;
+  out[1] = 1.5 * t3 - 2.5 * t2 + 1;
+  out[2] = -1.5 * t3 + 2 * t2 + 0.5 * t;
+  out[3] = 0.5 * t3 - 0.5 * t2;
+};
+
+/**
+ * Sample RGBA at a fractional position into `out`. Returns false when the
+ * position falls outside the image.
+ */
+export function sampleImage(
+  src: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  resampling: Resampling,
+  out: Float64Array
+): boolean {
+  // Pixel centers sit at integer + 0.5
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+  if (fx < -0.5 || fy < -0.5 || fx > width - 0.5 || fy > height - 0.5) return false;
+
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  out.fill(0);
+
+  if (resampling === 'bilinear') {
+    for (let j = 0; j < 2; j++) {
+      const sy = Math.min(height - 1, Math.max(0, y0 + j));
+      const wy = j === 0 ? 1 - ty : ty;
+      for (let i = 0; i < 2; i++) {
+        const sx = Math.min(width - 1, Math.max(0, x0 + i));
+        const weight = wy * (i === 0 ? 1 - tx : tx);
+        const p = (sy * width + sx) * 4;
+        out[0] += src[p] * weight;
+        out[1] += src[p + 1] * weight;
+        out[2] += src[p + 2] * weight;
+        out[3] += src[p + 3] * weight;
+      }
+    }
+    return true;
+  }
+
+  const wx = cubicWeightsX;
+  const wy = cubicWeightsY;
+  cubicWeights(tx, wx);
+  cubicWeights(ty, wy);
+  for (let j = 0; j < 4; j++) {
+    const sy = Math.min(height - 1, Math.max(0, y0 + j - 1));
+    for (let i = 0; i < 4; i++) {
+      const sx = Math.min(width - 1, Math.max(0, x0 + i - 1));
+      const weight = wx[i] * wy[j];
+      const p = (sy * width + sx) * 4;
+      out[0] += src[p] * weight;
+      out[1] += src[p + 1] * weight;
+      out[2] += src[p + 2] * weight;
+      out[3] += src[p + 3] * weight;
+    }
+  }
+  return true;
+}
+
+/**
+ * Warp image data by a homography mapping output pixels to source pixels.
+ * Areas that map outside the source are left transparent.
+ */
+export function warpPerspective(
+  imageData: ImageData,
+  targetToSource: Homography,
+  resampling: Resampling
+): ImageData {
+  const { width, height, data: src } = imageData;
+  const output = new ImageData(width, height);
+  const dst = output.data;
+  const sample = new Float64Array(4);
+  const h = targetToSource;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Map the pixel center
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = h[6] * px + h[7] * py + h[8];
+      const sx = (h[0] * px + h[1] * py + h[2]) / w;
+      const sy = (h[3] * px + h[4] * py + h[5]) / w;
+      if (!sampleImage(src, width, height, sx, sy, resampling, sample)) continue;
+
+      const i = (y * width + x) * 4;
+      dst[i] = sample[0];
+      dst[i + 1] = sample[1];
+      dst[i + 2] = sample[2];
+      dst[i + 3] = sample[3];
+    }
+  }
+  return output;
+}
+
+/**
+ * CSS matrix3d for the forward (source to target) homography, for elements
+ * transformed about their center. Coordinates are in element pixels.
+ */
+export function getPerspectiveCssTransform(crop: CropState, width: number, height: number): string | null {
+  const quads = getPerspectiveQuads(crop, width, height);
+  if (!quads) return null;
+
+  const centered = (quad: Quad) => quad.map(p => ({ x: p.x - width / 2, y: p.y - height / 2 })) as Quad;
+  try {
+    const h = computeHomography(centered(quads.source), centered(quads.target));
+    return `matrix3d(${h[0]}, ${h[3]}, 0, ${h[6]}, ${h[1]}, ${h[4]}, 0, ${h[7]}, 0, 0, 1, 0, ${h[2]}, ${h[5]}, 0, ${h[8]})`;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,162 @@
+import type { Point, SpotOperation } from '@/lib/store';
+
+/**
+ * Spot healing and clone stamp operations.
+ *
+ * Spots are stored normalized to the source image, so the same list can be
+ * replayed on the low-resolution preview and on the full-resolution original.
+ */
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+function getSpotAlpha(dist: number, radius: number, feather: number) {
+  if (dist >= radius) return 0;
+  const hard = radius * (1 - Math.max(0, Math.min(100, feather)) / 100);
+  if (dist <= hard) return 1;
+  return 1 - smoothstep((dist - hard) / (radius - hard));
+}
+
+// Average color of the ring just inside the spot edge (ignores pixels outside the image)
+function getRingMean(data: Uint8ClampedArray, size: number, center: number, radius: number) {
+  const inner = radius * 0.75;
+  const sum = [0, 0, 0];
+  let count = 0;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dist = Math.hypot(x - center, y - center);
+      if (dist < inner || dist > radius) continue;
+      const i = (y * size + x) * 4;
+      if (data[i + 3] === 0) continue;
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+
+  return count > 0 ? sum.map(v => v / count) : null;
+}
+
+/**
+ * Apply spot operations in order to a canvas of the given size.
+ * Each spot reads the current canvas, so later spots can sample earlier fixes.
+ */
+export function applySpotOperations(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  spots: SpotOperation[]
+) {
+  const longEdge = Math.max(width, height);
+
+  for (const spot of spots) {
+    const radius = Math.max(1, spot.radius * longEdge);
+    const size = Math.ceil(radius * 2) + 2;
+    const center = size / 2;
+
+    const targetX = Math.round(spot.target.x * width - center);
+    const targetY = Math.round(spot.target.y * height - center);
+    const sourceX = targetX + Math.round((spot.source.x - spot.target.x) * width);
+    const sourceY = targetY + Math.round((spot.source.y - spot.target.y) * height);
+
+    // Out-of-bounds areas come back as transparent pixels and are skipped
+    const source = ctx.getImageData(sourceX, sourceY, size, size);
+    const target = ctx.getImageData(targetX, targetY, size, size);
+    const src = source.data;
+    const dst = target.data;
+
+    // Healing shifts the patch so its edge matches the surroundings of the target
+    let offset = [0, 0, 0];
+    if (spot.mode === 'heal') {
+      const sourceMean = getRingMean(src, size, center, radius);
+      const targetMean = getRingMean(dst, size, center, radius);
+      if (sourceMean && targetMean) {
+        offset = targetMean.map((v, i) => v - sourceMean[i]);
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const alpha = getSpotAlpha(Math.hypot(x + 0.5 - center, y + 0.5 - center), radius, spot.feather);
+        if (alpha === 0) continue;
+
+        const i = (y * size + x) * 4;
+        if (src[i + 3] === 0 || dst[i + 3] === 0) continue;
+
+        dst[i] = dst[i] + (src[i] + offset[0] - dst[i]) * alpha;
+        dst[i + 1] = dst[i + 1] + (src[i + 1] + offset[1] - dst[i + 1]) * alpha;
+        dst[i + 2] = dst[i + 2] + (src[i + 2] + offset[2] - dst[i + 2]) * alpha;
+      }
+    }
+
+    ctx.putImageData(target, targetX, targetY);
+  }
+}
+
+/**
+ * Pick a nearby source for a heal spot: the candidate whose edge color best
+ * matches the target's surroundings and whose interior is least textured.
+ */
+export function suggestSpotSource(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  target: Point,
+  radiusFraction: number
+): Point {
+  const longEdge = Math.max(width, height);
+  const radius = Math.max(1, radiusFraction * longEdge);
+  const size = Math.ceil(radius * 2) + 2;
+  const center = size / 2;
+  const tx = target.x * width;
+  const ty = target.y * height;
+
+  const targetData = ctx.getImageData(Math.round(tx - center), Math.round(ty - center), size, size).data;
+  const targetMean = getRingMean(targetData, size, center, radius);
+
+  let best: Point | null = null;
+  let bestScore = Infinity;
+
+  for (let k = 0; k < 8; k++) {
+    const angle = (k * Math.PI) / 4;
+    const cx = tx + Math.cos(angle) * radius * 2.5;
+    const cy = ty + Math.sin(angle) * radius * 2.5;
+    if (cx - radius < 0 || cy - radius < 0 || cx + radius > width || cy + radius > height) continue;
+
+    const data = ctx.getImageData(Math.round(cx - center), Math.round(cy - center), size, size).data;
+    const mean = getRingMean(data, size, center, radius);
+    if (!mean) continue;
+
+    // Variance of luminance inside the candidate disc
+    let sum = 0;
+    let sumSq = 0;
+    let count = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (Math.hypot(x - center, y - center) > radius) continue;
+        const i = (y * size + x) * 4;
+        const lum = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        sum += lum;
+        sumSq += lum * lum;
+        count++;
+      }
+    }
+    const variance = count > 0 ? sumSq / count - (sum / count) ** 2 : 0;
+    const colorDiff = targetMean
+      ? Math.abs(mean[0] - targetMean[0]) + Math.abs(mean[1] - targetMean[1]) + Math.abs(mean[2] - targetMean[2])
+      : 0;
+    const score = colorDiff + Math.sqrt(Math.max(0, variance));
+
+    if (score < bestScore) {
+      bestScore = score;
+      best = { x: cx / width, y: cy / height };
+    }
+  }
+
+  // Fall back to a fixed offset when no candidate fits inside the image
+  return best ?? {
+    x: Math.max(0, Math.min(1, target.x + (tx + radius * 2.5 <= width ? 1 : -1) * (radius * 2.5) / width)),
+    y: target.y,
+  };
+}
@@ -2,67 +2,253 @@
  * Creates and manages the image processing Web Worker
  */
 
+import { createCurveEvaluator } from './curve-spline';
+import { createLevelsEvaluator } from './levels';
+import { applyCubeLut } from './cube-lut';
+import { detectHorizonAngle } from './horizon-detection';
+import { applyVignette, applyGrain } from './effects';
+import { blurPlane, applyGaussianBlur, applyUnsharpMask } from './blur';
+import { applyLocalContrast, applyDehaze } from './local-contrast';
+import { applyNoiseReduction } from './noise-reduction';
+import { applyMonochrome } from './monochrome';
+import { hueOffset, applyColorGrading } from './color-grading';
+
 let workerInstance: Worker | null = null;
 let workerReady = false;
+let horizonWorkerInstance: Worker | null = null;
 
 export function getImageWorker(): Worker {
   if (workerInstance && workerReady) {
     return workerInstance;
   }
 
-  // Create worker from inline code (as a blob URL)
+  // Create worker from inline code (as a blob URL). Functions from the other
+  // image-processing modules are embedded with toString(), so each must be
+  // self-contained: it may use its parameters and globals, but nothing
+  // imported or declared at module scope. Helpers shared between them, such
+  // as blurPlane, are passed in as parameters instead.
   const workerCode = `
     const clamp = (value) => Math.max(0, Math.min(255, value));
 
-    function createLUT(points) {
-      const lut = new Uint8Array(256);
-      const sorted = [...points].sort((a, b) => a.x - b.x);
+    const createCurveEvaluator = ${createCurveEvaluator.toString()};
 
-      for (let i = 0; i < 256; i++) {
-        const x = i / 255;
-        let p0 = sorted[0];
-        let p1 = sorted[sorted.length - 1];
-
-        for (let j = 0; j < sorted.length - 1; j++) {
-          if (x >= sorted[j].x && x <= sorted[j + 1].x) {
-            p0 = sorted[j];
-            p1 = sorted[j + 1];
-            break;
-          }
-        }
+    const createLevelsEvaluator = ${createLevelsEvaluator.toString()};
+
+    const applyCubeLut = ${applyCubeLut.toString()};
+
+    const blurPlane = ${blurPlane.toString()};
+
+    const applyGaussianBlur = ${applyGaussianBlur.toString()};
+
+    const applyUnsharpMask = ${applyUnsharpMask.toString()};
+
+    const applyNoiseReduction = ${applyNoiseReduction.toString()};
+
+    const applyLocalContrast = ${applyLocalContrast.toString()};
+
+    const applyDehaze = ${applyDehaze.toString()};
+
+    const hueOffset = ${hueOffset.toString()};
+
+    const applyMonochrome = ${applyMonochrome.toString()};
 
-        const range = p1.x - p0.x;
-        const t = range === 0 ? 0 : (x - p0.x) / range;
-        const y = p0.y + t * (p1.y - p0.y);
-        lut[i] = clamp(Math.round(y * 255));
+    const applyColorGrading = ${applyColorGrading.toString()};
+
+    const applyVignette = ${applyVignette.toString()};
+
+    const applyGrain = ${applyGrain.toString()};
+
+    // Channel levels, master levels, channel curve, then master curve,
+    // composed in floating point (0-1 in and out)
+    function createToneCurve(channel, curves, levels) {
+      const channelLevels = createLevelsEvaluator(levels && levels[channel]);
+      const masterLevels = createLevelsEvaluator(levels && levels.master);
+      const channelCurve = curves ? createCurveEvaluator(curves[channel]) : (x) => x;
+      const masterCurve = curves ? createCurveEvaluator(curves.master) : (x) => x;
+      return (x) => masterCurve(channelCurve(masterLevels(channelLevels(x))));
+    }
+
+    // One table per channel, rounded once
+    function createLUT(channel, curves, levels) {
+      const lut = new Uint8Array(256);
+      const toneCurve = createToneCurve(channel, curves, levels);
+      for (let i = 0; i < 256; i++) {
+        lut[i] = clamp(Math.round(toneCurve(i / 255) * 255));
       }
       return lut;
     }
 
-    function applyCurves(data, curves) {
-      if (!curves) return;
+    function applyCurves(data, curves, levels) {
+      if (!curves && !levels) return;
 
-      const masterLUT = createLUT(curves.master);
-      const redLUT = createLUT(curves.red);
-      const greenLUT = createLUT(curves.green);
-      const blueLUT = createLUT(curves.blue);
+      const redLUT = createLUT('red', curves, levels);
+      const greenLUT = createLUT('green', curves, levels);
+      const blueLUT = createLUT('blue', curves, levels);
 
       for (let i = 0; i < data.length; i += 4) {
         data[i] = redLUT[data[i]];
         data[i + 1] = greenLUT[data[i + 1]];
         data[i + 2] = blueLUT[data[i + 2]];
+      }
+    }
 
-        data[i] = masterLUT[data[i]];
-        data[i + 1] = masterLUT[data[i + 1]];
-        data[i + 2] = masterLUT[data[i + 2]];
+    // Curves on unrounded values, evaluated per value instead of by table
+    function applyCurvesExact(data, curves, levels) {
+      if (!curves && !levels) return;
+
+      const toneCurves = ['red', 'green', 'blue'].map((channel) => createToneCurve(channel, curves, levels));
+      for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = clamp(toneCurves[c](data[i + c] / 255) * 255);
+        }
       }
     }
 
+    // Center hue (degrees) of each HSL mixer band, in order around the wheel
+    const HSL_BAND_CENTERS = [
+      ['red', 0],
+      ['orange', 30],
+      ['yellow', 60],
+      ['green', 120],
+      ['aqua', 180],
+      ['blue', 240],
+      ['purple', 270],
+      ['magenta', 300],
+    ];
+
+    // Build a 360-entry table of hue/saturation/luminance shifts.
+    // Each hue blends its two neighbouring bands with a smoothstep weight,
+    // so adjacent bands fade into each other without visible banding.
+    function createHslTable(hsl) {
+      if (!hsl) return null;
+
+      let active = false;
+      for (let i = 0; i < HSL_BAND_CENTERS.length; i++) {
+        const band = hsl[HSL_BAND_CENTERS[i][0]];
+        if (band && (band.hue !== 0 || band.saturation !== 0 || band.luminance !== 0)) {
+          active = true;
+          break;
+        }
+      }
+      if (!active) return null;
+
+      const hueShift = new Float32Array(360);
+      const satShift = new Float32Array(360);
+      const lumShift = new Float32Array(360);
+      const count = HSL_BAND_CENTERS.length;
+
+      for (let h = 0; h < 360; h++) {
+        let k = count - 1;
+        for (let j = 0; j < count; j++) {
+          if (HSL_BAND_CENTERS[j][1] <= h) k = j;
+        }
+        const next = (k + 1) % count;
+        const start = HSL_BAND_CENTERS[k][1];
+        let end = HSL_BAND_CENTERS[next][1];
+        if (end <= start) end += 360;
+
+        const t = (h - start) / (end - start);
+        const w = t * t * (3 - 2 * t);
+        const a = hsl[HSL_BAND_CENTERS[k][0]] || { hue: 0, saturation: 0, luminance: 0 };
+        const b = hsl[HSL_BAND_CENTERS[next][0]] || { hue: 0, saturation: 0, luminance: 0 };
+
+        // Hue: +/-100 maps to +/-30 degrees
+        hueShift[h] = ((1 - w) * a.hue + w * b.hue) * 0.3;
+        satShift[h] = ((1 - w) * a.saturation + w * b.saturation) / 100;
+        lumShift[h] = ((1 - w) * a.luminance + w * b.luminance) / 100;
+      }
+
+      return { hueShift, satShift, lumShift };
+    }
+
+    function rgbToHsl(r, g, b) {
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const l = (max + min) / 2;
+      if (max === min) return [0, 0, l];
+
+      const d = max - min;
+      const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+      let h;
+      if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+      else if (max === g) h = (b - r) / d + 2;
+      else h = (r - g) / d + 4;
+      return [h * 60, s, l];
+    }
+
+    function hueToChannel(p, q, t) {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    }
+
+    function hslToRgb(h, s, l) {
+      if (s === 0) return [l, l, l];
+      const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+      const p = 2 * l - q;
+      const hk = h / 360;
+      return [
+        hueToChannel(p, q, hk + 1 / 3),
+        hueToChannel(p, q, hk),
+        hueToChannel(p, q, hk - 1 / 3),
+      ];
+    }
+
+    function applyHslMixer(r, g, b, table) {
+      const hsl = rgbToHsl(
+        Math.max(0, Math.min(1, r / 255)),
+        Math.max(0, Math.min(1, g / 255)),
+        Math.max(0, Math.min(1, b / 255))
+      );
+      const s = hsl[1];
+      if (s === 0) return [r, g, b];
+
+      const idx = Math.floor(hsl[0]) % 360;
+      let h = hsl[0] + table.hueShift[idx];
+      if (h < 0) h += 360;
+      if (h >= 360) h -= 360;
+
+      const satShift = table.satShift[idx];
+      const newS = Math.max(0, Math.min(1, satShift >= 0 ? s + (1 - s) * satShift * s : s * (1 + satShift)));
+      // Scale luminance change by saturation so near-neutral pixels stay put
+      const newL = Math.max(0, Math.min(1, hsl[2] + table.lumShift[idx] * 0.5 * s * (1 - Math.abs(2 * hsl[2] - 1))));
+
+      const rgb = hslToRgb(h, newS, newL);
+      return [rgb[0] * 255, rgb[1] * 255, rgb[2] * 255];
+    }
+
+    // Vibrance boosts muted colors more than already-saturated ones and
+    // holds back on skin tones (hues around orange) when boosting.
+    function getVibranceMultiplier(r, g, b, amount) {
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      if (max <= 0) return 1;
+
+      const chroma = Math.max(0, Math.min(1, (max - min) / 255));
+      let weight = 1 - chroma;
+
+      if (amount > 0) {
+        const hue = rgbToHsl(
+          Math.max(0, Math.min(1, r / 255)),
+          Math.max(0, Math.min(1, g / 255)),
+          Math.max(0, Math.min(1, b / 255))
+        )[0];
+        const skinDistance = (hue - 25) / 20;
+        weight *= 1 - 0.7 * Math.exp(-skinDistance * skinDistance);
+      }
+
+      return Math.max(0, 1 + amount * weight);
+    }
+
     function applyColorAdjustments(data, adjustments) {
       const {
         exposure,
         contrast,
         saturation,
+        vibrance,
         temperature,
         tint,
         highlights,
@@ -73,6 +259,7 @@ export function getImageWorker(): Worker {
       const exposureMultiplier = Math.pow(2, exposure / 100);
       const contrastFactor = (259 * (contrast + 255)) / (255 * (259 - contrast));
       const satMult = 1 + saturation / 100;
+      const vibranceAmount = (vibrance || 0) / 100;
       const rw = 0.3086, rg = 0.6094, rb = 0.0820;
 
       const temp = temperature / 100;
@@ -82,6 +269,8 @@ export function getImageWorker(): Worker {
       const tnt = tint / 100;
       const gTint = 1 + tnt * 0.2;
 
+      const hslTable = createHslTable(adjustments.hsl);
+
       for (let i = 0; i < data.length; i += 4) {
         let r = data[i];
         let g = data[i + 1];
@@ -104,6 +293,14 @@ export function getImageWorker(): Worker {
         g = gray + (g - gray) * satMult;
         b = gray + (b - gray) * satMult;
 
+        if (vibranceAmount !== 0) {
+          const vibranceMult = getVibranceMultiplier(r, g, b, vibranceAmount);
+          const vGray = r * rw + g * rg + b * rb;
+          r = vGray + (r - vGray) * vibranceMult;
+          g = vGray + (g - vGray) * vibranceMult;
+          b = vGray + (b - vGray) * vibranceMult;
+        }
+
         if (whiteBalance !== 0) {
           const wbFactor = whiteBalance / 100;
           b *= (1 + wbFactor * 0.3);
@@ -127,99 +324,244 @@ export function getImageWorker(): Worker {
           }
         }
 
+        if (hslTable) {
+          const mixed = applyHslMixer(r, g, b, hslTable);
+          r = mixed[0];
+          g = mixed[1];
+          b = mixed[2];
+        }
+
         data[i] = clamp(r);
         data[i + 1] = clamp(g);
         data[i + 2] = clamp(b);
       }
     }
 
-    function applyConvolution(imageData, kernel, opaque = true) {
-      const side = Math.round(Math.sqrt(kernel.length));
-      const halfSide = Math.floor(side / 2);
-      const src = imageData.data;
-      const w = imageData.width;
-      const h = imageData.height;
-
-      const output = new ImageData(w, h);
-      const dst = output.data;
-
-      for (let y = 0; y < h; y++) {
-        for (let x = 0; x < w; x++) {
-          let r = 0, g = 0, b = 0, a = 0;
-          const dstOff = (y * w + x) * 4;
-
-          for (let cy = 0; cy < side; cy++) {
-            for (let cx = 0; cx < side; cx++) {
-              const scy = y + cy - halfSide;
-              const scx = x + cx - halfSide;
-
-              if (scy >= 0 && scy < h && scx >= 0 && scx < w) {
-                const srcOff = (scy * w + scx) * 4;
-                const wt = kernel[cy * side + cx];
-
-                r += src[srcOff] * wt;
-                g += src[srcOff + 1] * wt;
-                b += src[srcOff + 2] * wt;
-                a += src[srcOff + 3] * wt;
+    const smoothstep = (t) => t * t * (3 - 2 * t);
+
+    // Compute per-pixel weights (0-1) for a local adjustment mask.
+    // Mask geometry is normalized to the frame being processed.
+    function createMaskWeights(mask, width, height) {
+      const weights = new Float32Array(width * height);
+
+      if (mask.type === 'linear') {
+        const sx = mask.start.x * width;
+        const sy = mask.start.y * height;
+        const dx = mask.end.x * width - sx;
+        const dy = mask.end.y * height - sy;
+        const len2 = dx * dx + dy * dy;
+
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const t = len2 === 0 ? 0 : ((x - sx) * dx + (y - sy) * dy) / len2;
+            weights[y * width + x] = t <= 0 ? 1 : t >= 1 ? 0 : 1 - smoothstep(t);
+          }
+        }
+      } else if (mask.type === 'radial') {
+        const cx = mask.center.x * width;
+        const cy = mask.center.y * height;
+        const rx = Math.max(1, mask.radiusX * width);
+        const ry = Math.max(1, mask.radiusY * height);
+        const rad = ((mask.rotation || 0) * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const inner = 1 - Math.max(0, Math.min(100, mask.feather)) / 100;
+
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const px = x - cx;
+            const py = y - cy;
+            const u = (px * cos + py * sin) / rx;
+            const v = (-px * sin + py * cos) / ry;
+            const d = Math.sqrt(u * u + v * v);
+            let w;
+            if (d <= inner) w = 1;
+            else if (d >= 1) w = 0;
+            else w = 1 - smoothstep((d - inner) / (1 - inner));
+            weights[y * width + x] = w;
+          }
+        }
+      } else if (mask.type === 'brush') {
+        const longEdge = Math.max(width, height);
+        const strokeWeights = new Float32Array(width * height);
+
+        for (const stroke of mask.strokes || []) {
+          if (!stroke.points || stroke.points.length === 0) continue;
+
+          const radius = Math.max(1, stroke.size * longEdge);
+          const hard = radius * (1 - Math.max(0, Math.min(100, stroke.feather)) / 100);
+          const flow = Math.max(0, Math.min(100, stroke.flow)) / 100;
+          const spacing = Math.max(1, radius * 0.25);
+          strokeWeights.fill(0);
+
+          // Within a stroke overlapping dabs don't build up; flow limits the stroke's strength
+          const stamp = (sx, sy) => {
+            const x0 = Math.max(0, Math.floor(sx - radius));
+            const x1 = Math.min(width - 1, Math.ceil(sx + radius));
+            const y0 = Math.max(0, Math.floor(sy - radius));
+            const y1 = Math.min(height - 1, Math.ceil(sy + radius));
+            for (let y = y0; y <= y1; y++) {
+              for (let x = x0; x <= x1; x++) {
+                const dist = Math.sqrt((x - sx) * (x - sx) + (y - sy) * (y - sy));
+                if (dist >= radius) continue;
+                const falloff = dist <= hard ? 1 : 1 - smoothstep((dist - hard) / (radius - hard));
+                const idx = y * width + x;
+                const value = falloff * flow;
+                if (value > strokeWeights[idx]) strokeWeights[idx] = value;
               }
             }
+          };
+
+          const pts = stroke.points;
+          stamp(pts[0].x * width, pts[0].y * height);
+          for (let i = 1; i < pts.length; i++) {
+            const ax = pts[i - 1].x * width;
+            const ay = pts[i - 1].y * height;
+            const bx = pts[i].x * width;
+            const by = pts[i].y * height;
+            const steps = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) / spacing));
+            for (let step = 1; step <= steps; step++) {
+              const t = step / steps;
+              stamp(ax + (bx - ax) * t, ay + (by - ay) * t);
+            }
+          }
+
+          for (let i = 0; i < weights.length; i++) {
+            const value = strokeWeights[i];
+            if (value === 0) continue;
+            weights[i] = stroke.erase
+              ? weights[i] * (1 - value)
+              : weights[i] + (1 - weights[i]) * value;
           }
+        }
+      }
+
+      if (mask.invert) {
+        for (let i = 0; i < weights.length; i++) {
+          weights[i] = 1 - weights[i];
+        }
+      }
+
+      return weights;
+    }
 
-          dst[dstOff] = clamp(r);
-          dst[dstOff + 1] = clamp(g);
-          dst[dstOff + 2] = clamp(b);
-          dst[dstOff + 3] = opaque ? 255 : clamp(a);
+    // Apply each mask's adjustments to a copy of the image and blend it back
+    // in proportion to the mask weight.
+    function applyLocalMasks(data, width, height, masks) {
+      if (!masks || masks.length === 0) return;
+
+      for (const mask of masks) {
+        const local = mask.adjustments || {};
+        const hasAdjustment = Object.keys(local).some((key) => local[key] !== 0);
+        if (!hasAdjustment) continue;
+
+        const weights = createMaskWeights(mask, width, height);
+        const adjusted = new Uint8ClampedArray(data);
+        applyColorAdjustments(adjusted, Object.assign({
+          exposure: 0,
+          contrast: 0,
+          saturation: 0,
+          vibrance: 0,
+          temperature: 0,
+          tint: 0,
+          highlights: 0,
+          shadows: 0,
+          whiteBalance: 0,
+        }, local));
+
+        for (let p = 0, i = 0; p < weights.length; p++, i += 4) {
+          const w = weights[p];
+          if (w === 0) continue;
+          data[i] = data[i] + (adjusted[i] - data[i]) * w;
+          data[i + 1] = data[i + 1] + (adjusted[i + 1] - data[i + 1]) * w;
+          data[i + 2] = data[i + 2] + (adjusted[i + 2] - data[i + 2]) * w;
         }
       }
-      return output;
+    }
+
+    // Clamp to 0-255 like writing into 8-bit pixels would, without rounding
+    function clampValues(data) {
+      for (let i = 0; i < data.length; i++) {
+        data[i] = clamp(data[i]);
+      }
+    }
+
+    // The per-pixel color stages of the pipeline below, in the same order,
+    // on float values so a baked LUT is neither rounded nor quantized
+    function applyColorStagesExact(data, adjustments, lut) {
+      applyColorAdjustments(data, adjustments);
+      applyMonochrome(data, adjustments, hueOffset);
+      clampValues(data);
+      applyColorGrading(data, adjustments, hueOffset);
+      clampValues(data);
+      applyCurvesExact(data, adjustments.curves, adjustments.levels);
+      if (lut) {
+        applyCubeLut(data, lut, adjustments.lutIntensity ?? 100);
+        clampValues(data);
+      }
     }
 
     self.onmessage = function(e) {
-      const { imageData, adjustments } = e.data;
+      const { requestId, imageData, lattice, adjustments, masks, lut } = e.data;
 
       try {
+        // Baking a LUT sends a float lattice instead of an image
+        if (lattice) {
+          const values = new Float32Array(lattice);
+          applyColorStagesExact(values, adjustments, lut);
+          self.postMessage({ requestId, success: true, lattice: values.buffer }, [values.buffer]);
+          return;
+        }
+
         const data = new Uint8ClampedArray(imageData.data);
         const width = imageData.width;
         const height = imageData.height;
         const processedImageData = new ImageData(data, width, height);
 
+        // Noise goes first, before anything amplifies it. Progress messages
+        // carry no success flag, so they can't be mistaken for the result.
+        applyNoiseReduction(processedImageData.data, width, height, adjustments, (progress) => {
+          self.postMessage({ requestId, progress });
+        });
+
+        // Haze is estimated from the scene before any tonal changes
+        applyDehaze(processedImageData.data, width, height, adjustments.dehaze || 0, blurPlane);
+
         applyColorAdjustments(processedImageData.data, adjustments);
 
-        if (adjustments.curves) {
-          applyCurves(processedImageData.data, adjustments.curves);
-        }
+        applyLocalMasks(processedImageData.data, width, height, masks);
 
-        let finalImageData = processedImageData;
-        if (adjustments.blur > 0) {
-          const val = 1/9;
-          const kernel = [
-            val, val, val,
-            val, val, val,
-            val, val, val
-          ];
-          finalImageData = applyConvolution(finalImageData, kernel);
-        }
+        // Black & white after the masks, so local color changes feed the gray mix
+        applyMonochrome(processedImageData.data, adjustments, hueOffset);
+        applyColorGrading(processedImageData.data, adjustments, hueOffset);
+
+        applyLocalContrast(processedImageData.data, width, height, adjustments, blurPlane);
 
-        if (adjustments.sharpness > 0) {
-          const s = adjustments.sharpness / 100;
-          const kernel = [
-            0, -1 * s, 0,
-            -1 * s, 1 + 4 * s, -1 * s,
-            0, -1 * s, 0
-          ];
-          finalImageData = applyConvolution(finalImageData, kernel);
+        applyCurves(processedImageData.data, adjustments.curves, adjustments.levels);
+
+        if (lut) {
+          applyCubeLut(processedImageData.data, lut, adjustments.lutIntensity ?? 100);
         }
 
+        applyGaussianBlur(processedImageData.data, width, height, adjustments.blur, blurPlane);
+        applyUnsharpMask(processedImageData.data, width, height, adjustments, blurPlane);
+
+        // Finishing effects go last so they aren't blurred or sharpened
+        applyVignette(processedImageData.data, width, height, adjustments);
+        applyGrain(processedImageData.data, width, height, adjustments);
+
         self.postMessage({
+          requestId,
           success: true,
           imageData: {
-            data: finalImageData.data.buffer,
-            width: finalImageData.width,
-            height: finalImageData.height
+            data: processedImageData.data.buffer,
+            width: processedImageData.width,
+            height: processedImageData.height
           }
-        }, [finalImageData.data.buffer]);
+        }, [processedImageData.data.buffer]);
       } catch (error) {
         self.postMessage({
+          requestId,
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error'
         });
@@ -235,11 +577,49 @@ export function getImageWorker(): Worker {
   return workerInstance;
 }
 
+/**
+ * Separate worker for horizon detection, so analysis never queues behind
+ * (or answers in place of) preview rendering.
+ */
+export function getHorizonWorker(): Worker {
+  if (horizonWorkerInstance) {
+    return horizonWorkerInstance;
+  }
+
+  const workerCode = `
+    const detectHorizonAngle = ${detectHorizonAngle.toString()};
+
+    self.onmessage = function(e) {
+      const { imageData, maxAngle } = e.data;
+
+      try {
+        const data = new Uint8ClampedArray(imageData.data);
+        const angle = detectHorizonAngle(data, imageData.width, imageData.height, maxAngle);
+        self.postMessage({ success: true, angle });
+      } catch (error) {
+        self.postMessage({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    };
+  `;
+
+  const blob = new Blob([workerCode], { type: 'application/javascript' });
+  horizonWorkerInstance = new Worker(URL.createObjectURL(blob));
+
+  return horizonWorkerInstance;
+}
+
 export function terminateWorker() {
   if (workerInstance) {
     workerInstance.terminate();
     workerInstance = null;
     workerReady = false;
   }
+  if (horizonWorkerInstance) {
+    horizonWorkerInstance.terminate();
+    horizonWorkerInstance = null;
+  }
 }
 
@@ -1,11 +1,14 @@
 /**
- * IndexedDB utilities for storing image data
+ * IndexedDB utilities for storing image data and imported LUTs
  * This allows us to store large image blobs without hitting localStorage quota limits
  */
 
+import type { CubeLut } from './image-processing/cube-lut';
+
 const DB_NAME = 'luma-forge-images';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'images';
+const LUT_STORE_NAME = 'luts';
 
 interface ImageBlob {
   id: string;
@@ -14,6 +17,12 @@ interface ImageBlob {
   processedImage: Blob | null;
 }
 
+export interface StoredLut extends CubeLut {
+  id: string;
+  name: string; // Display name (TITLE from the file, or the file name)
+  createdAt: number;
+}
+
 /**
  * Open IndexedDB database
  */
@@ -35,6 +44,9 @@ function openDB(): Promise<IDBDatabase> {
         const objectStore = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         objectStore.createIndex('id', 'id', { unique: true });
       }
+      if (!db.objectStoreNames.contains(LUT_STORE_NAME)) {
+        db.createObjectStore(LUT_STORE_NAME, { keyPath: 'id' });
+      }
     };
   });
 }
@@ -262,3 +274,109 @@ export async function getAllImageIds(): Promise<string[]> {
     return [];
   }
 }
+
+/**
+ * Store an imported LUT in IndexedDB
+ */
+export async function storeLut(lut: StoredLut): Promise<void> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) {
+    console.warn('IndexedDB not available, skipping LUT storage');
+    return;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([LUT_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(lut);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    db.close();
+  } catch (error) {
+    console.error('Failed to store LUT:', error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieve a LUT from IndexedDB
+ */
+export async function getLut(lutId: string): Promise<StoredLut | null> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) {
+    return null;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([LUT_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+
+    const lut = await new Promise<StoredLut | undefined>((resolve, reject) => {
+      const request = store.get(lutId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    db.close();
+    return lut ?? null;
+  } catch (error) {
+    console.error('Failed to get LUT:', error);
+    return null;
+  }
+}
+
+/**
+ * Get all LUTs stored in IndexedDB, oldest first
+ */
+export async function getAllLuts(): Promise<StoredLut[]> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) {
+    return [];
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([LUT_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+
+    const luts = await new Promise<StoredLut[]>((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result as StoredLut[]);
+      request.onerror = () => reject(request.error);
+    });
+
+    db.close();
+    return luts.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to get all LUTs:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a LUT from IndexedDB
+ */
+export async function deleteLut(lutId: string): Promise<void> {
+  if (typeof window === 'undefined' || !('indexedDB' in window)) {
+    return;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([LUT_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(lutId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    db.close();
+  } catch (error) {
+    console.error('Failed to delete LUT:', error);
+  }
+}
@@ -6,6 +6,8 @@ import {
   getImageBlobs,
   clearAllImageBlobs,
 } from './indexeddb-utils';
+import { generateId } from './utils';
+import { migrateKernelAdjustments } from './image-processing/blur';
 
 export interface Point { x: number; y: number }
 
@@ -16,39 +18,231 @@ export interface Curves {
   blue: Point[];
 }
 
+export type CurveChannel = keyof Curves;
+
+// Levels for one channel: input black/white points and gamma, then the
+// output range. Points are 0-255.
+export interface LevelsAdjustment {
+  inputBlack: number;
+  inputWhite: number;
+  gamma: number; // 0.1-9.99, 1 is neutral
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export type Levels = Record<CurveChannel, LevelsAdjustment>;
+
+export type HslBand =
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'aqua'
+  | 'blue'
+  | 'purple'
+  | 'magenta';
+
+export interface HslAdjustment {
+  hue: number;
+  saturation: number;
+  luminance: number;
+}
+
+export type HslAdjustments = Record<HslBand, HslAdjustment>;
+
 export interface ImageAdjustments {
   exposure: number;
   contrast: number;
   saturation: number;
+  vibrance: number;
   temperature: number;
   tint: number;
   highlights: number;
   shadows: number;
   whiteBalance: number;
-  sharpness: number;
-  blur: number;
+  sharpness: number; // Unsharp mask amount, 0-100
+  sharpenRadius: number; // 0-100, relative to the frame size
+  sharpenThreshold: number; // 0-100
+  sharpenMasking: number; // 0-100, limits sharpening to edges
+  blur: number; // Gaussian blur radius, 0-100, relative to the frame size
+  noiseReduction: number; // Luminance noise reduction, 0-100
+  colorNoiseReduction: number; // 0-100
+  // Local contrast, with radii relative to the frame size
+  clarity: number; // -100 to 100
+  texture: number; // -100 to 100
+  dehaze: number; // -100 to 100
+  // Lens corrections, applied to the source before crop and color
+  lensDistortion: number; // -100 (pincushion) to 100 (barrel)
+  lensVignette: number; // -100 to 100
+  lensCaRed: number; // -100 to 100, red/cyan fringe
+  lensCaBlue: number; // -100 to 100, blue/yellow fringe
+  // Post-crop effects, laid out relative to the processed frame
+  vignetteAmount: number; // -100 (dark) to 100 (light)
+  vignetteMidpoint: number; // 0-100
+  vignetteRoundness: number; // -100 to 100
+  vignetteFeather: number; // 0-100
+  vignetteHighlights: number; // 0-100, highlight protection
+  grainAmount: number; // 0-100
+  grainSize: number; // 0-100
+  grainRoughness: number; // 0-100
+  grainSeed: number; // Keeps the grain pattern identical between renders
+  // Black & white: how bright each hue band turns out in the gray mix
+  monochrome: boolean;
+  bwRed: number; // -100 to 100
+  bwOrange: number;
+  bwYellow: number;
+  bwGreen: number;
+  bwAqua: number;
+  bwBlue: number;
+  bwPurple: number;
+  bwMagenta: number;
+  // Split toning, for color or black & white
+  toneHighlightHue: number; // 0-360
+  toneHighlightSaturation: number; // 0-100
+  toneShadowHue: number; // 0-360
+  toneShadowSaturation: number; // 0-100
+  toneBalance: number; // -100 (favor shadows) to 100 (favor highlights)
+  // Color grading wheels: hue 0-360, saturation 0-100, luminance -100 to 100
+  gradeShadowHue: number;
+  gradeShadowSaturation: number;
+  gradeShadowLuminance: number;
+  gradeMidtoneHue: number;
+  gradeMidtoneSaturation: number;
+  gradeMidtoneLuminance: number;
+  gradeHighlightHue: number;
+  gradeHighlightSaturation: number;
+  gradeHighlightLuminance: number;
+  gradeBlending: number; // 0-100, overlap between the ranges
+  gradeBalance: number; // -100 (favor shadows) to 100 (favor highlights)
   curves: Curves;
+  levels: Levels; // Applied before the curves, in the same lookup table
+  hsl: HslAdjustments;
+  lutId: string | null; // Imported .cube LUT (stored in IndexedDB), applied after curves
+  lutIntensity: number; // 0-100
+}
+
+export type MaskAdjustmentKey =
+  | 'exposure'
+  | 'contrast'
+  | 'highlights'
+  | 'shadows'
+  | 'temperature'
+  | 'tint'
+  | 'saturation';
+
+export type MaskAdjustments = Pick<ImageAdjustments, MaskAdjustmentKey>;
+
+// Mask geometry is stored normalized (0-1) to the processed (cropped) frame,
+// so the same mask applies to both the preview and the full-resolution export.
+export interface BrushStroke {
+  points: Point[];
+  size: number; // Radius as a fraction of the frame's long edge
+  feather: number; // 0-100
+  flow: number; // 0-100
+  erase: boolean;
 }
 
+interface MaskBase {
+  id: string;
+  invert: boolean;
+  adjustments: MaskAdjustments;
+}
+
+export interface LinearGradientMask extends MaskBase {
+  type: 'linear';
+  start: Point; // Full effect
+  end: Point; // No effect
+}
+
+export interface RadialGradientMask extends MaskBase {
+  type: 'radial';
+  center: Point;
+  radiusX: number; // Fraction of frame width
+  radiusY: number; // Fraction of frame height
+  rotation: number; // Degrees
+  feather: number; // 0-100
+}
+
+export interface BrushMask extends MaskBase {
+  type: 'brush';
+  strokes: BrushStroke[];
+}
+
+export type LocalMask = LinearGradientMask | RadialGradientMask | BrushMask;
+
+export type MaskType = LocalMask['type'];
+
+export interface BrushSettings {
+  size: number;
+  feather: number;
+  flow: number;
+  erase: boolean;
+}
+
+// Spot positions are normalized (0-1) to the source image, before crop/rotation,
+// so they stay on the same content and scale between preview and export.
+export interface SpotOperation {
+  id: string;
+  mode: 'heal' | 'clone';
+  source: Point;
+  target: Point;
+  radius: number; // Fraction of the source image's long edge
+  feather: number; // 0-100
+}
+
+export type CropAspectPreset = 'free' | 'original' | '1:1' | '4:5' | '3:2' | '16:9' | 'custom';
+
 export interface CropState {
   x: number;
   y: number;
   width: number;
   height: number;
   rotation: number;
+  // Aspect ratio constraint of the crop tool; aspectRatio (width / height)
+  // already includes a portrait/landscape swap and is unused when free
+  aspectPreset: CropAspectPreset;
   aspectRatio: number;
   sourceWidth: number;
   sourceHeight: number;
+  // Orientation applied to the source before crop and rotation: quarter turns
+  // clockwise first, then mirroring of the turned image
+  quarterTurns: number; // 0-3
+  flipH: boolean;
+  flipV: boolean;
+  // Keystone correction in the oriented frame, before rotation and crop.
+  // Guided corners (normalized 0-1, clockwise from top-left) outline a shape
+  // that should be rectangular and take precedence over the sliders.
+  perspectiveVertical: number; // -100 to 100
+  perspectiveHorizontal: number; // -100 to 100
+  perspectiveCorners: [Point, Point, Point, Point] | null;
+}
+
+export interface HistoryEntry {
+  adjustments: ImageAdjustments;
+  crop: CropState;
+  masks: LocalMask[];
+  spots: SpotOperation[];
+}
+
+// Details of the file an image was imported from
+export interface ImageFileInfo {
+  name: string;
+  size: number; // Bytes
+  type: string; // MIME type
+  lastModified: number; // Milliseconds since epoch
 }
 
 export interface ImageData {
   id: string;
+  file: ImageFileInfo | null; // Null for images imported before this was tracked
   originalImage: string; // Data URL (Full Resolution)
   previewImage: string | null; // Data URL (Low Resolution for editing)
   processedImage: string | null; // Data URL for result preview
   adjustments: ImageAdjustments;
   crop: CropState;
-  history: { adjustments: ImageAdjustments; crop: CropState }[];
+  masks: LocalMask[];
+  spots: SpotOperation[];
+  history: HistoryEntry[];
   historyIndex: number;
 }
 
@@ -56,17 +250,29 @@ interface EditorState {
   images: ImageData[];
   currentImageId: string | null;
   isLoading: boolean; // Loading state for IndexedDB operations
+  activeMaskId: string | null; // Mask currently being edited (not persisted)
+  brushSettings: BrushSettings; // Brush used for painting masks (not persisted)
 
   // Actions
-  setImage: (imageData: string) => void;
-  addImage: (imageData: string) => void;
-  addImages: (imageData: string[]) => void;
+  setImage: (imageData: string, file?: ImageFileInfo) => void;
+  addImage: (imageData: string, file?: ImageFileInfo) => void;
+  addImages: (imageData: string[], files?: ImageFileInfo[]) => void;
   removeImage: (imageId: string) => void;
   setCurrentImage: (imageId: string) => void;
   setPreviewImage: (imageData: string) => void;
   setProcessedImage: (imageData: string) => void;
   updateAdjustments: (updates: Partial<ImageAdjustments>) => void;
+  detachLut: (lutId: string) => void; // Clear a deleted LUT from every image using it
   updateCrop: (updates: Partial<CropState>) => void;
+  addMask: (type: MaskType) => void;
+  updateMask: (maskId: string, updates: Partial<LocalMask>) => void;
+  removeMask: (maskId: string) => void;
+  clearMasks: () => void;
+  setActiveMask: (maskId: string | null) => void;
+  setBrushSettings: (updates: Partial<BrushSettings>) => void;
+  addSpot: (spot: Omit<SpotOperation, 'id'>) => string | null;
+  updateSpot: (spotId: string, updates: Partial<Omit<SpotOperation, 'id'>>) => void;
+  removeSpot: (spotId: string) => void;
   undo: () => void;
   redo: () => void;
   reset: () => void;
@@ -81,18 +287,91 @@ const DEFAULT_CURVES: Curves = {
   blue: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
 };
 
+const NEUTRAL_LEVELS: LevelsAdjustment = {
+  inputBlack: 0,
+  inputWhite: 255,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 255,
+};
+
+export const DEFAULT_LEVELS: Levels = {
+  master: { ...NEUTRAL_LEVELS },
+  red: { ...NEUTRAL_LEVELS },
+  green: { ...NEUTRAL_LEVELS },
+  blue: { ...NEUTRAL_LEVELS },
+};
+
+export const HSL_BANDS: HslBand[] = ['red', 'orange', 'yellow', 'green', 'aqua', 'blue', 'purple', 'magenta'];
+
+export const DEFAULT_HSL: HslAdjustments = HSL_BANDS.reduce((acc, band) => {
+  acc[band] = { hue: 0, saturation: 0, luminance: 0 };
+  return acc;
+}, {} as HslAdjustments);
+
 const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
   exposure: 0,
   contrast: 0,
   saturation: 0,
+  vibrance: 0,
   temperature: 0,
   tint: 0,
   highlights: 0,
   shadows: 0,
   whiteBalance: 0,
   sharpness: 0,
+  sharpenRadius: 25,
+  sharpenThreshold: 0,
+  sharpenMasking: 0,
   blur: 0,
+  noiseReduction: 0,
+  colorNoiseReduction: 0,
+  clarity: 0,
+  texture: 0,
+  dehaze: 0,
+  lensDistortion: 0,
+  lensVignette: 0,
+  lensCaRed: 0,
+  lensCaBlue: 0,
+  vignetteAmount: 0,
+  vignetteMidpoint: 50,
+  vignetteRoundness: 0,
+  vignetteFeather: 50,
+  vignetteHighlights: 0,
+  grainAmount: 0,
+  grainSize: 25,
+  grainRoughness: 50,
+  grainSeed: 0,
+  monochrome: false,
+  bwRed: 0,
+  bwOrange: 0,
+  bwYellow: 0,
+  bwGreen: 0,
+  bwAqua: 0,
+  bwBlue: 0,
+  bwPurple: 0,
+  bwMagenta: 0,
+  toneHighlightHue: 45,
+  toneHighlightSaturation: 0,
+  toneShadowHue: 220,
+  toneShadowSaturation: 0,
+  toneBalance: 0,
+  gradeShadowHue: 0,
+  gradeShadowSaturation: 0,
+  gradeShadowLuminance: 0,
+  gradeMidtoneHue: 0,
+  gradeMidtoneSaturation: 0,
+  gradeMidtoneLuminance: 0,
+  gradeHighlightHue: 0,
+  gradeHighlightSaturation: 0,
+  gradeHighlightLuminance: 0,
+  gradeBlending: 50,
+  gradeBalance: 0,
   curves: JSON.parse(JSON.stringify(DEFAULT_CURVES)), // Deep copy
+  levels: JSON.parse(JSON.stringify(DEFAULT_LEVELS)),
+  hsl: JSON.parse(JSON.stringify(DEFAULT_HSL)),
+  lutId: null,
+  lutIntensity: 100,
 };
 
 const DEFAULT_CROP: CropState = {
@@ -101,27 +380,86 @@ const DEFAULT_CROP: CropState = {
   width: 0,
   height: 0,
   rotation: 0,
+  aspectPreset: 'free',
   aspectRatio: 1,
   sourceWidth: 0,
   sourceHeight: 0,
+  quarterTurns: 0,
+  flipH: false,
+  flipV: false,
+  perspectiveVertical: 0,
+  perspectiveHorizontal: 0,
+  perspectiveCorners: null,
+};
+
+export const MASK_ADJUSTMENT_KEYS: MaskAdjustmentKey[] = [
+  'exposure',
+  'contrast',
+  'highlights',
+  'shadows',
+  'temperature',
+  'tint',
+  'saturation',
+];
+
+const DEFAULT_MASK_ADJUSTMENTS: MaskAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  highlights: 0,
+  shadows: 0,
+  temperature: 0,
+  tint: 0,
+  saturation: 0,
+};
+
+const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  size: 0.05,
+  feather: 50,
+  flow: 100,
+  erase: false,
 };
 
 // Cached default values to avoid creating new objects on every selector call
 const CACHED_DEFAULT_ADJUSTMENTS = Object.freeze({ ...DEFAULT_ADJUSTMENTS });
 const CACHED_DEFAULT_CROP = Object.freeze({ ...DEFAULT_CROP });
 const CACHED_EMPTY_HISTORY_ARRAY = Object.freeze([]);
+const CACHED_EMPTY_MASKS: LocalMask[] = [];
+const CACHED_EMPTY_SPOTS: SpotOperation[] = [];
 const CACHED_EMPTY_HISTORY = Object.freeze({ history: CACHED_EMPTY_HISTORY_ARRAY, historyIndex: -1 });
 
 // Helper to check if we're on the client side
 const isClient = typeof window !== 'undefined';
 
-// Helper to generate a UUID for image IDs
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
-    return crypto.randomUUID();
+// Fill in fields added after an image was persisted so older edits keep working
+const normalizeAdjustments = (adjustments?: Partial<ImageAdjustments>): ImageAdjustments => ({
+  ...DEFAULT_ADJUSTMENTS,
+  curves: JSON.parse(JSON.stringify(DEFAULT_CURVES)),
+  levels: JSON.parse(JSON.stringify(DEFAULT_LEVELS)),
+  hsl: JSON.parse(JSON.stringify(DEFAULT_HSL)),
+  ...(adjustments && migrateKernelAdjustments(adjustments)),
+});
+
+const normalizeCrop = (crop?: Partial<CropState>): CropState => ({
+  ...DEFAULT_CROP,
+  ...crop,
+});
+
+// Helper to create a new mask with sensible placement
+const createMask = (type: MaskType): LocalMask => {
+  const base = {
+    id: generateId(),
+    invert: false,
+    adjustments: { ...DEFAULT_MASK_ADJUSTMENTS },
+  };
+
+  switch (type) {
+    case 'linear':
+      return { ...base, type, start: { x: 0.5, y: 0.2 }, end: { x: 0.5, y: 0.6 } };
+    case 'radial':
+      return { ...base, type, center: { x: 0.5, y: 0.5 }, radiusX: 0.3, radiusY: 0.3, rotation: 0, feather: 50 };
+    case 'brush':
+      return { ...base, type, strokes: [] };
   }
-  // Fallback for environments without crypto.randomUUID
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
 // Type for the persisted state (without functions)
@@ -134,7 +472,7 @@ type PersistedState = {
   processedImage?: string | null;
   adjustments?: ImageAdjustments;
   crop?: CropState;
-  history?: { adjustments: ImageAdjustments; crop: CropState }[];
+  history?: HistoryEntry[];
   historyIndex?: number;
 };
 
@@ -142,9 +480,12 @@ type PersistedState = {
 type PersistedMetadata = {
   imageMetadata: Array<{
     id: string;
+    file?: ImageFileInfo | null;
     adjustments: ImageAdjustments;
     crop: CropState;
-    history: { adjustments: ImageAdjustments; crop: CropState }[];
+    masks?: LocalMask[];
+    spots?: SpotOperation[];
+    history: HistoryEntry[];
     historyIndex: number;
   }>;
   currentImageId: string | null;
@@ -188,12 +529,21 @@ const createHybridStorage = (): PersistStorage<PersistedState> => {
             const blobs = await getImageBlobs(meta.id);
             images.push({
               id: meta.id,
+              file: meta.file ?? null,
               originalImage: blobs.originalImage || '',
               previewImage: blobs.previewImage,
               processedImage: blobs.processedImage,
-              adjustments: meta.adjustments || { ...DEFAULT_ADJUSTMENTS },
-              crop: meta.crop || { ...DEFAULT_CROP },
-              history: meta.history || [],
+              adjustments: normalizeAdjustments(meta.adjustments),
+              crop: normalizeCrop(meta.crop),
+              masks: meta.masks || [],
+              spots: meta.spots || [],
+              history: (meta.history || []).map(entry => ({
+                ...entry,
+                adjustments: normalizeAdjustments(entry.adjustments),
+                crop: normalizeCrop(entry.crop),
+                masks: entry.masks || [],
+                spots: entry.spots || [],
+              })),
               historyIndex: meta.historyIndex ?? -1,
             });
           }
@@ -223,15 +573,25 @@ const createHybridStorage = (): PersistStorage<PersistedState> => {
               img.processedImage || null
             );
 
-            migratedImages.push(img);
+            migratedImages.push({
+              ...img,
+              file: img.file ?? null,
+              adjustments: normalizeAdjustments(img.adjustments),
+              crop: normalizeCrop(img.crop),
+              masks: img.masks || [],
+              spots: img.spots || [],
+            });
           }
 
           // Save metadata only to localStorage
           const metadataOnly: PersistedMetadata = {
             imageMetadata: migratedImages.map(img => ({
               id: img.id,
+              file: img.file,
               adjustments: img.adjustments,
               crop: img.crop,
+              masks: img.masks || [],
+              spots: img.spots || [],
               history: img.history || [],
               historyIndex: img.historyIndex ?? -1,
             })),
@@ -291,8 +651,11 @@ const createHybridStorage = (): PersistStorage<PersistedState> => {
         // Extract metadata (without image data)
         const imageMetadata = state.images.map(img => ({
           id: img.id,
+          file: img.file ?? null,
           adjustments: img.adjustments,
           crop: img.crop,
+          masks: img.masks || [],
+          spots: img.spots || [],
           history: img.history || [],
           historyIndex: img.historyIndex ?? -1,
         }));
@@ -336,8 +699,11 @@ const createHybridStorage = (): PersistStorage<PersistedState> => {
             if (state.images && state.images.length > 0) {
               const imageMetadata = state.images.map(img => ({
                 id: img.id,
+                file: img.file ?? null,
                 adjustments: img.adjustments,
                 crop: img.crop,
+                masks: img.masks || [],
+                spots: img.spots || [],
                 history: img.history || [],
                 historyIndex: img.historyIndex ?? -1,
               }));
@@ -370,21 +736,42 @@ const createHybridStorage = (): PersistStorage<PersistedState> => {
   };
 };
 
+// Capture the details of an imported file (File objects can't be persisted)
+export const getImageFileInfo = (file: File): ImageFileInfo => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
 // Helper to create a new image data object
-const createImageData = (imageData: string): ImageData => ({
+const createImageData = (imageData: string, file?: ImageFileInfo): ImageData => ({
   id: generateId(),
+  file: file ?? null,
   originalImage: imageData,
   previewImage: null,
   processedImage: imageData,
   adjustments: {
     ...DEFAULT_ADJUSTMENTS,
-    curves: JSON.parse(JSON.stringify(DEFAULT_CURVES))
+    curves: JSON.parse(JSON.stringify(DEFAULT_CURVES)),
+    levels: JSON.parse(JSON.stringify(DEFAULT_LEVELS)),
+    hsl: JSON.parse(JSON.stringify(DEFAULT_HSL)),
   },
   crop: { ...DEFAULT_CROP },
+  masks: [],
+  spots: [],
   history: [],
   historyIndex: -1,
 });
 
+// Snapshot of the editable state of an image for undo/redo
+const toHistoryEntry = (image: ImageData): HistoryEntry => ({
+  adjustments: image.adjustments,
+  crop: image.crop,
+  masks: image.masks,
+  spots: image.spots,
+});
+
 // Helper to get current image
 const getCurrentImage = (state: EditorState): ImageData | null => {
   if (!state.currentImageId) return null;
@@ -397,30 +784,32 @@ export const useEditorStore = create<EditorState>()(
       images: [],
       currentImageId: null,
       isLoading: true,
+      activeMaskId: null,
+      brushSettings: { ...DEFAULT_BRUSH_SETTINGS },
 
       setLoading: (loading: boolean) => set({ isLoading: loading }),
 
-      setImage: (imageData) => {
-        const newImage = createImageData(imageData);
+      setImage: (imageData, file) => {
+        const newImage = createImageData(imageData, file);
         set({
           images: [newImage],
           currentImageId: newImage.id,
         });
       },
 
-      addImage: (imageData) => {
-        const newImage = createImageData(imageData);
+      addImage: (imageData, file) => {
+        const newImage = createImageData(imageData, file);
         set((state) => ({
           images: [...state.images, newImage],
           currentImageId: newImage.id,
         }));
       },
 
-      addImages: (imageDataArray) => {
+      addImages: (imageDataArray, files) => {
         if (!imageDataArray || imageDataArray.length === 0) return;
 
         set((state) => {
-          const newImages = imageDataArray.map((data) => createImageData(data));
+          const newImages = imageDataArray.map((data, i) => createImageData(data, files?.[i]));
           const updatedImages = [...state.images, ...newImages];
           console.log('updatedImages', updatedImages)
           const lastImage = newImages[newImages.length - 1];
@@ -450,7 +839,7 @@ export const useEditorStore = create<EditorState>()(
       },
 
       setCurrentImage: (imageId) => {
-        set({ currentImageId: imageId });
+        set({ currentImageId: imageId, activeMaskId: null });
       },
 
       setPreviewImage: (imageData) => {
@@ -488,7 +877,7 @@ export const useEditorStore = create<EditorState>()(
 
         const newAdjustments = { ...current.adjustments, ...updates };
         const newHistory = current.history.slice(0, current.historyIndex + 1);
-        newHistory.push({ adjustments: current.adjustments, crop: current.crop });
+        newHistory.push(toHistoryEntry(current));
 
         set({
           images: state.images.map(img =>
@@ -504,6 +893,24 @@ export const useEditorStore = create<EditorState>()(
         });
       },
 
+      detachLut: (lutId) => {
+        const state = get();
+
+        set({
+          images: state.images.map(img => {
+            if (img.adjustments.lutId !== lutId) return img;
+            const newHistory = img.history.slice(0, img.historyIndex + 1);
+            newHistory.push(toHistoryEntry(img));
+            return {
+              ...img,
+              adjustments: { ...img.adjustments, lutId: null },
+              history: newHistory,
+              historyIndex: newHistory.length - 1,
+            };
+          }),
+        });
+      },
+
       updateCrop: (updates) => {
         const state = get();
         if (!state.currentImageId) return;
@@ -513,7 +920,7 @@ export const useEditorStore = create<EditorState>()(
 
         const newCrop = { ...current.crop, ...updates };
         const newHistory = current.history.slice(0, current.historyIndex + 1);
-        newHistory.push({ adjustments: current.adjustments, crop: current.crop });
+        newHistory.push(toHistoryEntry(current));
 
         set({
           images: state.images.map(img =>
@@ -529,6 +936,192 @@ export const useEditorStore = create<EditorState>()(
         });
       },
 
+      addMask: (type) => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current) return;
+
+        const mask = createMask(type);
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          activeMaskId: mask.id,
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                masks: [...img.masks, mask],
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      updateMask: (maskId, updates) => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current) return;
+
+        const newMasks = current.masks.map(mask =>
+          mask.id === maskId ? ({ ...mask, ...updates } as LocalMask) : mask
+        );
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                masks: newMasks,
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      removeMask: (maskId) => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current) return;
+
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          activeMaskId: state.activeMaskId === maskId ? null : state.activeMaskId,
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                masks: img.masks.filter(mask => mask.id !== maskId),
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      clearMasks: () => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current || current.masks.length === 0) return;
+
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          activeMaskId: null,
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                masks: [],
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      addSpot: (spot) => {
+        const state = get();
+        if (!state.currentImageId) return null;
+
+        const current = getCurrentImage(state);
+        if (!current) return null;
+
+        const newSpot: SpotOperation = { ...spot, id: generateId() };
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                spots: [...img.spots, newSpot],
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+
+        return newSpot.id;
+      },
+
+      updateSpot: (spotId, updates) => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current) return;
+
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                spots: img.spots.map(spot => spot.id === spotId ? { ...spot, ...updates } : spot),
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      removeSpot: (spotId) => {
+        const state = get();
+        if (!state.currentImageId) return;
+
+        const current = getCurrentImage(state);
+        if (!current) return;
+
+        const newHistory = current.history.slice(0, current.historyIndex + 1);
+        newHistory.push(toHistoryEntry(current));
+
+        set({
+          images: state.images.map(img =>
+            img.id === state.currentImageId
+              ? {
+                ...img,
+                spots: img.spots.filter(spot => spot.id !== spotId),
+                history: newHistory,
+                historyIndex: newHistory.length - 1,
+              }
+              : img
+          ),
+        });
+      },
+
+      setActiveMask: (maskId) => {
+        set({ activeMaskId: maskId });
+      },
+
+      setBrushSettings: (updates) => {
+        set((state) => ({ brushSettings: { ...state.brushSettings, ...updates } }));
+      },
+
       undo: () => {
         const state = get();
         if (!state.currentImageId) return;
@@ -544,6 +1137,8 @@ export const useEditorStore = create<EditorState>()(
                 ...img,
                 adjustments: previousState.adjustments,
                 crop: previousState.crop,
+                masks: previousState.masks || [],
+                spots: previousState.spots || [],
                 historyIndex: current.historyIndex - 1,
               }
               : img
@@ -566,6 +1161,8 @@ export const useEditorStore = create<EditorState>()(
                 ...img,
                 adjustments: nextState.adjustments,
                 crop: nextState.crop,
+                masks: nextState.masks || [],
+                spots: nextState.spots || [],
                 historyIndex: current.historyIndex + 1,
               }
               : img
@@ -584,9 +1181,13 @@ export const useEditorStore = create<EditorState>()(
                 ...img,
                 adjustments: {
                   ...DEFAULT_ADJUSTMENTS,
-                  curves: JSON.parse(JSON.stringify(DEFAULT_CURVES))
+                  curves: JSON.parse(JSON.stringify(DEFAULT_CURVES)),
+                  levels: JSON.parse(JSON.stringify(DEFAULT_LEVELS)),
+                  hsl: JSON.parse(JSON.stringify(DEFAULT_HSL)),
                 },
                 crop: { ...DEFAULT_CROP },
+                masks: [],
+                spots: [],
                 history: [],
                 historyIndex: -1,
               }
@@ -599,13 +1200,14 @@ export const useEditorStore = create<EditorState>()(
         set({
           images: [],
           currentImageId: null,
+          activeMaskId: null,
         });
       }
     }),
     {
       name: 'luma-forge-editor-storage', // unique name for storage key
       storage: createHybridStorage(),
-      // Persist metadata (adjustments, crop, history) to localStorage
+      // Persist metadata (adjustments, crop, masks, spots, history) to localStorage
       // Images are stored in IndexedDB to avoid localStorage quota limits
       partialize: (state) => ({
         images: state.images,
@@ -700,6 +1302,22 @@ export const useCrop = () => {
   });
 };
 
+export const useMasks = () => {
+  return useEditorStore((state) => {
+    if (!state.currentImageId) return CACHED_EMPTY_MASKS;
+    const current = state.images.find(img => img.id === state.currentImageId);
+    return current?.masks || CACHED_EMPTY_MASKS;
+  });
+};
+
+export const useSpots = () => {
+  return useEditorStore((state) => {
+    if (!state.currentImageId) return CACHED_EMPTY_SPOTS;
+    const current = state.images.find(img => img.id === state.currentImageId);
+    return current?.spots || CACHED_EMPTY_SPOTS;
+  });
+};
+
 export const useHistory = () => {
   const history = useEditorStore((state) => {
     if (!state.currentImageId) return CACHED_EMPTY_HISTORY_ARRAY;